@@ -0,0 +1,142 @@
+import { globToRegExp } from './glob.js';
+
+export type AccessList = 'allowed_applications' | 'blocked_applications';
+
+export interface AccessRule {
+  list: AccessList;
+  pattern: string;
+}
+
+export interface AccessDecision {
+  appBundleId: string;
+  allowed: boolean;
+  // The rule that decided; absent when no list applies to the app
+  rule?: AccessRule;
+  reason: string;
+}
+
+export interface AppAccessOptions {
+  allowed: string[];
+  blocked: string[];
+}
+
+interface CompiledRule extends AccessRule {
+  regex: RegExp;
+  // Patterns without a dot name an app rather than a bundle ID
+  byName: boolean;
+  // Bundle IDs of known apps whose name matches the pattern
+  knownIds: string[];
+}
+
+// Bundle IDs of apps that are commonly listed by name, many of which don't
+// end in the app's name
+const KNOWN_APPS: Record<string, string[]> = {
+  '1Password': ['com.1password.1password', 'com.agilebits.onepassword7'],
+  'Activity Monitor': ['com.apple.ActivityMonitor'],
+  'Calendar': ['com.apple.iCal'],
+  'ChatGPT': ['com.openai.chat'],
+  'Claude': ['com.anthropic.claudefordesktop'],
+  'Console': ['com.apple.Console'],
+  'Contacts': ['com.apple.AddressBook'],
+  'Discord': ['com.hnc.Discord'],
+  'Finder': ['com.apple.finder'],
+  'Google Chrome': ['com.google.Chrome'],
+  'iTerm': ['com.googlecode.iterm2'],
+  'Keychain Access': ['com.apple.keychainaccess'],
+  'Mail': ['com.apple.mail'],
+  'Messages': ['com.apple.MobileSMS'],
+  'Notes': ['com.apple.Notes'],
+  'Passwords': ['com.apple.Passwords'],
+  'Safari': ['com.apple.Safari'],
+  'Script Editor': ['com.apple.ScriptEditor2'],
+  'Signal': ['org.whispersystems.signal-desktop'],
+  'Slack': ['com.tinyspeck.slackmacgap'],
+  'System Preferences': ['com.apple.systempreferences'],
+  'System Settings': ['com.apple.systempreferences'],
+  'Terminal': ['com.apple.Terminal'],
+  'Visual Studio Code': ['com.microsoft.VSCode'],
+  'WhatsApp': ['net.whatsapp.WhatsApp'],
+  'Xcode': ['com.apple.dt.Xcode'],
+};
+
+// Decides which apps tools may reach, from security.allowed_applications and
+// security.blocked_applications. Patterns are globs over bundle IDs
+// ("com.apple.*"). A pattern without a dot is an app name such as
+// "System Settings": it matches the bundle IDs of known apps of that name,
+// and otherwise the last part of the bundle ID, ignoring spaces. A blocked
+// match always wins; a non-empty allow list admits only the apps it matches.
+export class AppAccessPolicy {
+  private allowed: CompiledRule[];
+  private blocked: CompiledRule[];
+
+  constructor(options: Partial<AppAccessOptions> = {}) {
+    this.allowed = (options.allowed ?? []).map((pattern) => compile('allowed_applications', pattern));
+    this.blocked = (options.blocked ?? []).map((pattern) => compile('blocked_applications', pattern));
+  }
+
+  get restricted(): boolean {
+    return this.allowed.length > 0 || this.blocked.length > 0;
+  }
+
+  // App names that aren't known apps only match bundle IDs ending in the
+  // name, so an app with another bundle ID slips through; shown at startup
+  get warnings(): string[] {
+    return [...this.blocked, ...this.allowed]
+      .filter((rule) => rule.byName && rule.knownIds.length === 0)
+      .map((rule) => `${rule.list} entry "${rule.pattern}" is not a known app name, so it only matches bundle IDs`
+        + ` ending in ".${rule.pattern.replace(/\s+/g, '')}"; list the app's bundle ID if it is different`);
+  }
+
+  check(appBundleId: string): AccessDecision {
+    const blocked = this.blocked.find((rule) => matches(rule, appBundleId));
+    if (blocked) {
+      return {
+        appBundleId,
+        allowed: false,
+        rule: { list: blocked.list, pattern: blocked.pattern },
+        reason: `matches ${blocked.list} pattern "${blocked.pattern}"`,
+      };
+    }
+
+    if (this.allowed.length === 0) {
+      return { appBundleId, allowed: true, reason: 'no allowed_applications list is configured' };
+    }
+
+    const allowed = this.allowed.find((rule) => matches(rule, appBundleId));
+    if (allowed) {
+      return {
+        appBundleId,
+        allowed: true,
+        rule: { list: allowed.list, pattern: allowed.pattern },
+        reason: `matches ${allowed.list} pattern "${allowed.pattern}"`,
+      };
+    }
+    return {
+      appBundleId,
+      allowed: false,
+      reason: `matches no allowed_applications pattern (${this.allowed.map((rule) => `"${rule.pattern}"`).join(', ')})`,
+    };
+  }
+}
+
+// Whether an allow/block style pattern (bundle ID glob or app name) matches the app
+export function matchesAppPattern(pattern: string, appBundleId: string): boolean {
+  return matches(compile('allowed_applications', pattern), appBundleId);
+}
+
+function compile(list: AccessList, pattern: string): CompiledRule {
+  const byName = !pattern.includes('.');
+  const regex = globToRegExp(byName ? pattern.replace(/\s+/g, '') : pattern);
+  const knownIds = byName
+    ? Object.entries(KNOWN_APPS).filter(([name]) => regex.test(name.replace(/\s+/g, ''))).flatMap(([, ids]) => ids)
+    : [];
+  return { list, pattern, byName, regex, knownIds };
+}
+
+function matches(rule: CompiledRule, appBundleId: string): boolean {
+  if (!rule.byName) {
+    return rule.regex.test(appBundleId);
+  }
+  return rule.knownIds.some((id) => id.toLowerCase() === appBundleId.toLowerCase())
+    || rule.regex.test(appBundleId.slice(appBundleId.lastIndexOf('.') + 1));
+}
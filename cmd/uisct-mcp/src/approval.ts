@@ -0,0 +1,197 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { matchesAppPattern } from './access.js';
+import { matchesGlob } from './glob.js';
+import { withDefaults } from './options.js';
+
+// Tools that change the signature store, write files or type into apps;
+// exportSignatures only counts when it writes a bundle file
+export const MUTATING_TOOLS = ['learnSignature', 'importSignatures', 'exportSignatures', 'sendMessage', 'askApp'];
+
+// A standing approval, from the config allowlist or the approval file.
+// Either field may be omitted to match anything.
+export const ApprovalEntrySchema = z.object({
+  tool: z.string().min(1).optional().describe('Tool name or glob'),
+  app: z.string().min(1).optional().describe('Bundle ID glob or app name'),
+  // ISO timestamp after which the entry no longer applies
+  until: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+export type ApprovalEntry = z.infer<typeof ApprovalEntrySchema>;
+
+const ApprovalFileSchema = z.object({
+  approvals: z.array(ApprovalEntrySchema),
+});
+
+export type ApprovalMethod = 'allowlist' | 'file' | 'elicitation' | 'sampling' | 'unavailable';
+
+export interface ApprovalRequest {
+  tool: string;
+  appBundleId?: string;
+  // What the call is about to do, shown to the user
+  action: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  method: ApprovalMethod;
+  reason: string;
+  // Set when the call was denied because the approval file is invalid
+  invalidConfig?: boolean;
+}
+
+// The approval file can't be read as {"approvals": [...]}
+export class ApprovalFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalFileError';
+  }
+}
+
+// How the gate can reach the user through the MCP host; set when the host
+// declared the matching client capability
+export interface ApprovalChannel {
+  elicit?: (message: string) => Promise<'accept' | 'decline' | 'cancel'>;
+  sample?: (message: string) => Promise<string>;
+}
+
+export interface ApprovalOptions {
+  // security.require_user_approval; nothing is gated when false
+  required: boolean;
+  // Tool names or globs that need approval
+  tools: string[];
+  // Apps that need approval (bundle ID globs or names); empty means every app
+  apps: string[];
+  allowlist: ApprovalEntry[];
+  // JSON file of {"approvals": [...]}, re-read for every decision so it can
+  // be edited while the server runs
+  file?: string;
+}
+
+const DEFAULT_OPTIONS: ApprovalOptions = {
+  required: false,
+  tools: MUTATING_TOOLS,
+  apps: [],
+  allowlist: [],
+};
+
+// Asks for confirmation before gated tool calls. Standing approvals from the
+// allowlist or approval file are checked first; then the user is asked
+// through elicitation, or sampling when the host only supports that. With
+// neither available the call is denied.
+export class ApprovalGate {
+  private options: ApprovalOptions;
+
+  constructor(options: Partial<ApprovalOptions> = {}) {
+    this.options = withDefaults(DEFAULT_OPTIONS, options);
+  }
+
+  requires(tool: string, appBundleId?: string): boolean {
+    if (!this.options.required || !this.options.tools.some((pattern) => matchesGlob(pattern, tool))) {
+      return false;
+    }
+    // A call whose app isn't known up front (e.g. importing a bundle) may
+    // touch a gated app, so it is gated too
+    return this.options.apps.length === 0
+      || appBundleId === undefined
+      || this.options.apps.some((pattern) => matchesAppPattern(pattern, appBundleId));
+  }
+
+  async decide(request: ApprovalRequest, channel: ApprovalChannel = {}): Promise<ApprovalDecision> {
+    const allowed = this.options.allowlist.find((entry) => covers(entry, request));
+    if (allowed) {
+      return { approved: true, method: 'allowlist', reason: `pre-approved by allowlist entry ${describeEntry(allowed)}` };
+    }
+
+    // A broken approval file denies the call rather than being skipped
+    let entries: ApprovalEntry[];
+    try {
+      entries = this.readApprovalFile();
+    } catch (error) {
+      if (!(error instanceof ApprovalFileError)) {
+        throw error;
+      }
+      return { approved: false, method: 'file', reason: error.message, invalidConfig: true };
+    }
+    const granted = entries.find((entry) => covers(entry, request));
+    if (granted) {
+      return { approved: true, method: 'file', reason: `approved by ${this.options.file} entry ${describeEntry(granted)}` };
+    }
+
+    // A request that fails (the host rejects it or nobody answers in time) is
+    // a denial, so the caller still records and reports it
+    const failed = (method: ApprovalMethod, error: unknown): ApprovalDecision => ({
+      approved: false,
+      method,
+      reason: `the approval request failed: ${error instanceof Error ? error.message : String(error)}`,
+    });
+
+    const message = `Allow ${request.tool} to ${request.action}?`;
+    if (channel.elicit) {
+      let action: 'accept' | 'decline' | 'cancel';
+      try {
+        action = await channel.elicit(message);
+      } catch (error) {
+        return failed('elicitation', error);
+      }
+      return action === 'accept'
+        ? { approved: true, method: 'elicitation', reason: 'approved by the user' }
+        : { approved: false, method: 'elicitation', reason: action === 'decline' ? 'declined by the user' : 'the user dismissed the request' };
+    }
+
+    if (channel.sample) {
+      let answer: string;
+      try {
+        answer = await channel.sample(`${message} Answer APPROVE or DENY.`);
+      } catch (error) {
+        return failed('sampling', error);
+      }
+      return /^\s*approve\b/i.test(answer)
+        ? { approved: true, method: 'sampling', reason: 'approved through the host' }
+        : { approved: false, method: 'sampling', reason: `not approved through the host (answered "${answer.trim().slice(0, 40)}")` };
+    }
+
+    const hint = this.options.file
+      ? `add {"tool": "${request.tool}", "app": "${request.appBundleId ?? '*'}"} to ${this.options.file}`
+      : 'add an entry to mcp.approval.allowlist';
+    return {
+      approved: false,
+      method: 'unavailable',
+      reason: `the MCP host supports neither elicitation nor sampling; to approve, ${hint}`,
+    };
+  }
+
+  // A missing file grants nothing; a malformed one is reported rather than ignored
+  private readApprovalFile(): ApprovalEntry[] {
+    const file = this.options.file;
+    if (!file || !existsSync(file)) {
+      return [];
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new ApprovalFileError(`Approval file ${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    const result = ApprovalFileSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new ApprovalFileError(`Approval file ${file} is invalid: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    return result.data.approvals;
+  }
+}
+
+function covers(entry: ApprovalEntry, request: ApprovalRequest): boolean {
+  if (entry.until !== undefined && Date.parse(entry.until) < Date.now()) {
+    return false;
+  }
+  if (entry.tool !== undefined && !matchesGlob(entry.tool, request.tool)) {
+    return false;
+  }
+  return entry.app === undefined
+    || (request.appBundleId !== undefined && matchesAppPattern(entry.app, request.appBundleId));
+}
+
+function describeEntry(entry: ApprovalEntry): string {
+  return JSON.stringify({ tool: entry.tool ?? '*', app: entry.app ?? '*' });
+}
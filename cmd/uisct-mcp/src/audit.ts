@@ -0,0 +1,210 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AccessRule } from './access.js';
+import { ApprovalMethod } from './approval.js';
+import { UIScoutErrorCode } from './errors.js';
+import { withDefaults } from './options.js';
+
+// One tool call, written after it finished
+export interface CallAuditEntry {
+  time: string;
+  type: 'call';
+  tool: string;
+  // Arguments with typed text and full signatures redacted
+  args: Record<string, unknown>;
+  // MCP session ID when served over HTTP
+  session?: string;
+  appBundleId?: string;
+  backend?: string;
+  success: boolean;
+  confidence?: number;
+  latencyMs: number;
+  // Name of the MCP error code, e.g. "AccessDenied" or "ServiceTimeout"
+  errorClass?: string;
+  error?: string;
+}
+
+// An access check made before a tool call reached the service
+export interface AccessAuditEntry {
+  time: string;
+  type: 'access';
+  tool: string;
+  appBundleId: string;
+  decision: 'allow' | 'deny';
+  rule?: AccessRule;
+  reason: string;
+}
+
+// The outcome of asking for approval of a gated tool call
+export interface ApprovalAuditEntry {
+  time: string;
+  type: 'approval';
+  tool: string;
+  appBundleId?: string;
+  decision: 'approve' | 'deny';
+  method: ApprovalMethod;
+  reason: string;
+}
+
+export type AuditEntry = CallAuditEntry | AccessAuditEntry | ApprovalAuditEntry;
+
+export interface AuditQuery {
+  limit: number;
+  type?: AuditEntry['type'];
+  tool?: string;
+  appBundleId?: string;
+  // Only calls that failed
+  errorsOnly?: boolean;
+  // ISO timestamp; only entries at or after it
+  since?: string;
+}
+
+export interface AuditLogOptions {
+  // JSONL file entries are appended to; entries are only kept in memory without one
+  file?: string;
+  // Rotate once the file would grow past this many bytes (logging.max_file_size)
+  maxFileSize: number;
+  // Files kept including the active one (logging.max_files); older ones are deleted
+  maxFiles: number;
+  // Recent entries kept in memory when there is no file
+  maxEntries: number;
+}
+
+const DEFAULT_OPTIONS: AuditLogOptions = {
+  maxFileSize: 10 * 1024 * 1024,
+  maxFiles: 5,
+  maxEntries: 1000,
+};
+
+// Argument keys whose values are typed into apps
+const REDACTED_KEYS = ['text'];
+const SIGNATURE_KEYS = ['signature', 'preSignature', 'baseline', 'current'];
+
+// Append-only record of tool calls and security decisions, one JSON object
+// per line. "audit.jsonl" rotates to "audit.jsonl.1", "audit.jsonl.2", ...
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+  private options: AuditLogOptions;
+
+  constructor(options: Partial<AuditLogOptions> = {}) {
+    this.options = withDefaults(DEFAULT_OPTIONS, options);
+    if (this.options.file) {
+      mkdirSync(path.dirname(this.options.file), { recursive: true });
+    }
+  }
+
+  get file(): string | undefined {
+    return this.options.file;
+  }
+
+  // Written synchronously so an entry is on disk before the call goes ahead
+  record(entry: AuditEntry): void {
+    const file = this.options.file;
+    if (!file) {
+      this.entries.push(entry);
+      if (this.entries.length > this.options.maxEntries) {
+        this.entries.shift();
+      }
+      return;
+    }
+
+    const line = `${JSON.stringify(entry)}\n`;
+    const size = existsSync(file) ? statSync(file).size : 0;
+    if (size > 0 && size + Buffer.byteLength(line) > this.options.maxFileSize) {
+      this.rotate(file);
+    }
+    appendFileSync(file, line);
+  }
+
+  // Most recent matching entries, newest first; reads back through rotated files
+  query(query: AuditQuery): AuditEntry[] {
+    const since = query.since !== undefined ? Date.parse(query.since) : undefined;
+    const matches = (entry: AuditEntry) =>
+      (query.type === undefined || entry.type === query.type)
+      && (query.tool === undefined || entry.tool === query.tool)
+      && (query.appBundleId === undefined || entry.appBundleId === query.appBundleId)
+      && (!query.errorsOnly || (entry.type === 'call' && !entry.success))
+      && (since === undefined || Date.parse(entry.time) >= since);
+
+    const found: AuditEntry[] = [];
+    for (const entries of this.newestFirst()) {
+      for (const entry of entries) {
+        if (found.length >= query.limit) {
+          return found;
+        }
+        if (matches(entry)) {
+          found.push(entry);
+        }
+      }
+    }
+    return found;
+  }
+
+  // Batches of entries, newest first: memory, or the active file then each rotated file
+  private *newestFirst(): Generator<AuditEntry[]> {
+    const file = this.options.file;
+    if (!file) {
+      yield [...this.entries].reverse();
+      return;
+    }
+    for (let index = 0; index < this.options.maxFiles; index++) {
+      const name = index === 0 ? file : `${file}.${index}`;
+      if (!existsSync(name)) {
+        return;
+      }
+      yield readFileSync(name, 'utf8')
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .flatMap((line) => {
+          // A line cut short by a crash is skipped rather than failing the query
+          try {
+            return [JSON.parse(line) as AuditEntry];
+          } catch {
+            return [];
+          }
+        })
+        .reverse();
+    }
+  }
+
+  private rotate(file: string): void {
+    if (this.options.maxFiles === 1) {
+      rmSync(file, { force: true });
+      return;
+    }
+    rmSync(`${file}.${this.options.maxFiles - 1}`, { force: true });
+    for (let index = this.options.maxFiles - 2; index >= 1; index--) {
+      if (existsSync(`${file}.${index}`)) {
+        renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+      }
+    }
+    renameSync(file, `${file}.1`);
+  }
+}
+
+// Keep what an agent did without copying typed text or captured UI details
+export function redactArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (REDACTED_KEYS.includes(key) && typeof value === 'string') {
+      redacted[key] = `[redacted: ${value.length} chars]`;
+    } else if (SIGNATURE_KEYS.includes(key) && typeof value === 'object' && value !== null) {
+      // Full signatures hold labels and nearby text; handles and IDs are kept as they are
+      const { appBundleId, elementType } = value as Record<string, unknown>;
+      redacted[key] = { appBundleId, elementType };
+    } else if (key === 'bundle' && typeof value === 'object' && value !== null) {
+      // Signature bundles can be large; the checksum identifies them
+      const { format, version, signatures, checksum } = value as Record<string, unknown>;
+      redacted[key] = { format, version, signatures: Array.isArray(signatures) ? signatures.length : undefined, checksum };
+    } else {
+      redacted[key] = value;
+    }
+  }
+  return redacted;
+}
+
+// A readable name for an MCP error code
+export function errorClassOf(code: number): string {
+  return UIScoutErrorCode[code] ?? ErrorCode[code] ?? `Error${code}`;
+}
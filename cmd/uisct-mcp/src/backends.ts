@@ -0,0 +1,111 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { UIScoutClient, UIScoutClientOptions } from './client.js';
+import { matchesGlob } from './glob.js';
+import { HealthMonitor } from './health.js';
+
+const BACKEND_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// Named UIScout services (e.g. one per Mac) and which apps go to which
+export const BackendsConfigSchema = z.object({
+  backends: z.record(
+    z.string().regex(BACKEND_NAME_PATTERN, 'Backend names may only contain letters, digits, ".", "_" and "-"'),
+    z.object({
+      url: z.string().url().describe('Base URL of the UIScout HTTP service'),
+    })
+  ).refine((backends) => Object.keys(backends).length > 0, 'At least one backend is required'),
+  // Backend for calls no route matches; the first backend when omitted
+  default: z.string().optional(),
+  // Checked in order; the first route whose pattern matches the appBundleId wins
+  routes: z.array(z.object({
+    app: z.string().min(1).describe('Glob pattern for app bundle IDs (e.g., "com.raycast.*")'),
+    backend: z.string(),
+  })).default([]),
+}).superRefine((config, ctx) => {
+  const names = Object.keys(config.backends);
+  if (config.default !== undefined && !names.includes(config.default)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['default'], message: `Unknown backend "${config.default}"` });
+  }
+  config.routes.forEach((route, index) => {
+    if (!names.includes(route.backend)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['routes', index, 'backend'], message: `Unknown backend "${route.backend}"` });
+    }
+  });
+});
+
+export type BackendsConfig = z.infer<typeof BackendsConfigSchema>;
+
+export interface Backend {
+  name: string;
+  url: string;
+  client: UIScoutClient;
+  health: HealthMonitor;
+}
+
+export interface BackendRoute {
+  app: string;
+  backend: string;
+}
+
+export const DEFAULT_BACKEND_NAME = 'default';
+
+// Picks the UIScout backend for each call: an explicit backend argument wins,
+// then the first route matching the call's appBundleId, then the default
+export class BackendRouter {
+  private backends = new Map<string, Backend>();
+  private defaultName: string;
+
+  constructor(backends: Backend[], private routes: BackendRoute[] = [], defaultName?: string) {
+    for (const backend of backends) {
+      this.backends.set(backend.name, backend);
+    }
+    this.defaultName = defaultName ?? backends[0].name;
+  }
+
+  static single(client: UIScoutClient, url: string): BackendRouter {
+    return new BackendRouter([{ name: DEFAULT_BACKEND_NAME, url, client, health: new HealthMonitor(client) }]);
+  }
+
+  static fromConfig(config: BackendsConfig, clientOptions: Partial<UIScoutClientOptions> = {}): BackendRouter {
+    const backends = Object.entries(config.backends).map(([name, { url }]) => {
+      const client = new UIScoutClient(url, clientOptions);
+      return { name, url, client, health: new HealthMonitor(client) };
+    });
+    return new BackendRouter(backends, config.routes, config.default);
+  }
+
+  get default(): Backend {
+    return this.backends.get(this.defaultName)!;
+  }
+
+  get size(): number {
+    return this.backends.size;
+  }
+
+  list(): Backend[] {
+    return [...this.backends.values()];
+  }
+
+  route(explicit?: string, appBundleId?: string): Backend {
+    if (explicit !== undefined) {
+      const backend = this.backends.get(explicit);
+      if (!backend) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `backend: unknown backend "${explicit}"; configured backends are ${[...this.backends.keys()].join(', ')}`,
+          { issues: [{ field: 'backend', message: 'Unknown backend', code: 'not_found' }] }
+        );
+      }
+      return backend;
+    }
+
+    if (appBundleId !== undefined) {
+      const route = this.routes.find((r) => matchesGlob(r.app, appBundleId));
+      if (route) {
+        return this.backends.get(route.backend)!;
+      }
+    }
+
+    return this.default;
+  }
+}
@@ -0,0 +1,117 @@
+import { createHash } from 'node:crypto';
+import type { ElementSignature, ElementType } from './client.js';
+
+// How an imported signature that is already stored is handled
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'keep-higher-stability';
+
+export type ImportAction = 'create' | 'overwrite' | 'skip';
+
+export interface BundleRecord {
+  signature: ElementSignature;
+  pinned: boolean;
+}
+
+export interface ImportPlanEntry {
+  appBundleId: string;
+  elementType: ElementType;
+  frameHash: string;
+  pinned: boolean;
+  stability: number;
+  action: ImportAction;
+  reason: string;
+  // Set once the entry was applied (or failed to be)
+  applied?: boolean;
+  error?: string;
+}
+
+// The bundle couldn't be read, failed validation or its checksum doesn't match
+export class SignatureBundleError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'SignatureBundleError';
+  }
+}
+
+// The service stores one signature per app, element type and frame hash
+export function signatureKey(signature: Pick<ElementSignature, 'appBundleId' | 'elementType' | 'frameHash'>): string {
+  return `${signature.appBundleId}-${signature.elementType}-${signature.frameHash}`;
+}
+
+// JSON with object keys sorted, so equal content always hashes the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Covers the format, version and records; metadata such as exportedAt may change freely
+export function bundleChecksum(format: string, version: number, signatures: BundleRecord[]): string {
+  const digest = createHash('sha256').update(canonicalJson({ format, version, signatures })).digest('hex');
+  return `sha256:${digest}`;
+}
+
+// Decide what importing each record would do, without touching the store.
+// `matchesApp` applies the app filter; `excludeApp` gives the reason an app
+// may not be imported at all.
+export function planImport(
+  records: BundleRecord[],
+  existing: ElementSignature[],
+  strategy: ImportConflictStrategy,
+  matchesApp: (appBundleId: string) => boolean,
+  elementTypes: ElementType[] | undefined,
+  excludeApp: (appBundleId: string) => string | undefined = () => undefined
+): { entries: ImportPlanEntry[]; filtered: number } {
+  const stored = new Map(existing.map((signature) => [signatureKey(signature), signature]));
+  const seen = new Set<string>();
+  const entries: ImportPlanEntry[] = [];
+  let filtered = 0;
+
+  for (const { signature, pinned } of records) {
+    if (!matchesApp(signature.appBundleId) || (elementTypes && !elementTypes.includes(signature.elementType))) {
+      filtered++;
+      continue;
+    }
+
+    const entry = (action: ImportAction, reason: string): ImportPlanEntry => ({
+      appBundleId: signature.appBundleId,
+      elementType: signature.elementType,
+      frameHash: signature.frameHash,
+      pinned,
+      stability: signature.stability,
+      action,
+      reason,
+    });
+
+    const key = signatureKey(signature);
+    const excluded = excludeApp(signature.appBundleId);
+    const current = stored.get(key);
+    if (excluded) {
+      entries.push(entry('skip', excluded));
+    } else if (seen.has(key)) {
+      entries.push(entry('skip', 'duplicate of an earlier record in the bundle'));
+    } else if (!current) {
+      entries.push(entry('create', 'not stored yet'));
+    } else if (strategy === 'overwrite') {
+      entries.push(entry('overwrite', 'already stored; overwriting'));
+    } else if (strategy === 'keep-higher-stability' && signature.stability > current.stability) {
+      entries.push(entry('overwrite', `bundle stability ${signature.stability} is above stored ${current.stability}`));
+    } else if (strategy === 'keep-higher-stability') {
+      entries.push(entry('skip', `stored stability ${current.stability} is not below bundle ${signature.stability}`));
+    } else {
+      entries.push(entry('skip', 'already stored'));
+    }
+    seen.add(key);
+  }
+
+  return { entries, filtered };
+}
@@ -1,29 +1,46 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { z } from 'zod';
+import { matchesAppPattern } from './access.js';
+import {
+  bundleChecksum,
+  ImportAction,
+  ImportConflictStrategy,
+  ImportPlanEntry,
+  planImport,
+  SignatureBundleError,
+  signatureKey,
+} from './bundles.js';
+import { readSSE, SSEDecoder, SSETruncatedError } from './sse.js';
+
+// Element types understood by the service (mirrors ElementSignature.ElementType in Models.swift)
+export const ELEMENT_TYPES = ['reply', 'input', 'session', 'send'] as const;
 
 // Zod schemas for type safety
-const ElementTypeSchema = z.enum(['reply', 'input', 'session']);
+export const ElementTypeSchema = z.enum(ELEMENT_TYPES);
+
+// Results below this confidence are not trusted unless the policy says otherwise
+export const DEFAULT_MIN_CONFIDENCE = 0.8;
 
 const PolicySchema = z.object({
   allowPeek: z.boolean().default(true),
-  minConfidence: z.number().min(0).max(1).default(0.8),
+  minConfidence: z.number().min(0).max(1).default(DEFAULT_MIN_CONFIDENCE),
   maxPeekMs: z.number().positive().default(250),
   rateLimitPeekSeconds: z.number().positive().default(10),
 });
 
-const ElementSignatureSchema = z.object({
-  appBundleId: z.string(),
-  elementType: ElementTypeSchema,
-  role: z.string(),
-  subroles: z.array(z.string()).default([]),
-  frameHash: z.string(),
-  pathHint: z.array(z.string()).default([]),
-  siblingRoles: z.array(z.string()).default([]),
-  readOnly: z.boolean().default(false),
-  scrollable: z.boolean().default(false),
-  attrs: z.record(z.any()).default({}),
-  stability: z.number().min(0).max(1),
-  lastVerifiedAt: z.number(),
+export const ElementSignatureSchema = z.object({
+  appBundleId: z.string().describe('Application bundle identifier the element belongs to'),
+  elementType: ElementTypeSchema.describe('Type of UI element'),
+  role: z.string().describe('Accessibility role (e.g., "AXScrollArea", "AXTextField")'),
+  subroles: z.array(z.string()).default([]).describe('Accessibility subroles'),
+  frameHash: z.string().describe('Hash of the element frame (e.g., "w400-h300-x0-y0@sha1")'),
+  pathHint: z.array(z.string()).default([]).describe('Accessibility path from the window to the element (e.g., ["AXWindow[0]", "AXGroup[1]"])'),
+  siblingRoles: z.array(z.string()).default([]).describe('Roles of neighbouring elements'),
+  readOnly: z.boolean().default(false).describe('Whether the element is read-only'),
+  scrollable: z.boolean().default(false).describe('Whether the element scrolls'),
+  attrs: z.record(z.any()).default({}).describe('Additional accessibility attributes'),
+  stability: z.number().min(0).max(1).describe('Learned stability score'),
+  lastVerifiedAt: z.number().describe('Unix timestamp of the last successful verification'),
 });
 
 const EvidenceSchema = z.object({
@@ -59,6 +76,11 @@ const ElementSnapshotSchema = z.object({
   timestamp: z.number(),
 });
 
+const HealthResponseSchema = z.object({
+  status: z.string(),
+  timestamp: z.number(),
+});
+
 const StatusResponseSchema = z.object({
   permissions: z.object({
     accessibility: z.boolean(),
@@ -82,6 +104,73 @@ const StatusResponseSchema = z.object({
   canOperate: z.boolean(),
 });
 
+const ElementBriefSchema = z.object({
+  role: z.string(),
+  confidence: z.number().min(0).max(1),
+});
+
+const SendResponseSchema = z.object({
+  elements: z.record(ElementBriefSchema),
+  actions: z.object({
+    setValue: z.boolean(),
+    pressedSend: z.boolean(),
+    confirmedInput: z.boolean(),
+  }),
+  diff: z.object({
+    confidence: z.number().min(0).max(1),
+    diffScore: z.number().min(0).max(1),
+    ocrChange: z.boolean(),
+  }),
+  success: z.boolean(),
+});
+
+const ObservationEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('event'),
+    timestamp: z.number(),
+    notification: z.string(),
+    appBundleId: z.string(),
+  }),
+  z.object({
+    type: z.literal('complete'),
+    total_events: z.number().optional(),
+  }),
+]);
+
+// Each observe stream message carries one JSON-encoded event in its data
+const ObservationMessageSchema = z.string().transform((data, ctx) => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Observe event is not valid JSON: ${data.slice(0, 100)}` });
+    return z.NEVER;
+  }
+}).pipe(ObservationEventSchema);
+
+// Signature bundles move learned signatures between machines and backends
+export const SIGNATURE_BUNDLE_FORMAT = 'uiscout-signature-bundle';
+export const SIGNATURE_BUNDLE_VERSION = 1;
+
+const SignatureBundleSchema = z.object({
+  format: z.literal(SIGNATURE_BUNDLE_FORMAT, {
+    errorMap: () => ({ message: `Expected "${SIGNATURE_BUNDLE_FORMAT}"; this is not a signature bundle` }),
+  }),
+  version: z.number().int().min(1).max(SIGNATURE_BUNDLE_VERSION, `Bundle versions above ${SIGNATURE_BUNDLE_VERSION} need a newer uisct-mcp`),
+  exportedAt: z.string(),
+  // Where and how the bundle was exported; informational only
+  source: z.object({
+    serviceUrl: z.string().optional(),
+    appBundleId: z.string().optional(),
+    elementType: ElementTypeSchema.optional(),
+    pinState: z.enum(['unknown', 'caller']).optional(),
+  }).optional(),
+  signatures: z.array(z.object({
+    signature: ElementSignatureSchema,
+    pinned: z.boolean().default(false),
+  })),
+  checksum: z.string().regex(/^sha256:[0-9a-f]{64}$/, 'Expected "sha256:" followed by 64 hex digits'),
+});
+
 // Type exports
 export type ElementType = z.infer<typeof ElementTypeSchema>;
 export type Policy = z.infer<typeof PolicySchema>;
@@ -89,52 +178,154 @@ export type ElementSignature = z.infer<typeof ElementSignatureSchema>;
 export type Evidence = z.infer<typeof EvidenceSchema>;
 export type ElementResult = z.infer<typeof ElementResultSchema>;
 export type ElementSnapshot = z.infer<typeof ElementSnapshotSchema>;
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
 export type StatusResponse = z.infer<typeof StatusResponseSchema>;
+export type ElementBrief = z.infer<typeof ElementBriefSchema>;
+export type SendResponse = z.infer<typeof SendResponseSchema>;
+export type ObservationEvent = z.infer<typeof ObservationEventSchema>;
+export type SignatureBundle = z.infer<typeof SignatureBundleSchema>;
+
+export type UIScoutEndpoint =
+  | 'health'
+  | 'find'
+  | 'afterSendDiff'
+  | 'observe'
+  | 'snapshot'
+  | 'send'
+  | 'learn'
+  | 'status'
+  | 'signatures';
 
-export interface ObservationEvent {
-  timestamp: number;
-  notification: string;
-  appBundleId: string;
-  type: 'event' | 'complete';
-  total_events?: number;
+// Default per-endpoint timeouts in milliseconds. For observe this is added on
+// top of the requested observation duration.
+export const DEFAULT_TIMEOUTS: Record<UIScoutEndpoint, number> = {
+  health: 5000,
+  find: 10000,
+  afterSendDiff: 15000,
+  observe: 5000,
+  snapshot: 5000,
+  send: 20000,
+  learn: 5000,
+  status: 5000,
+  signatures: 10000,
+};
+
+export interface RetryPolicy {
+  // Attempts after the first one; 0 disables retries
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+};
+
+export interface UIScoutClientOptions {
+  timeouts: Partial<Record<UIScoutEndpoint, number>>;
+  // Applied to idempotent calls only (getStatus, listSignatures, captureSnapshot)
+  retry: Partial<RetryPolicy>;
+  // Policy values used when a call doesn't set them
+  policy: Partial<Policy>;
+}
+
+export interface SignatureExportOptions {
+  appBundleId?: string;
+  elementType?: ElementType;
+  // Pin state recorded for every exported signature; the service doesn't
+  // report it, so without this the records are marked unpinned
+  pinned?: boolean;
+  // Returns why an app must be left out, e.g. because it is blocked
+  excludeApp?: (appBundleId: string) => string | undefined;
+}
+
+export interface SignatureImportOptions {
+  strategy: ImportConflictStrategy;
+  // Report what would happen without storing anything
+  dryRun: boolean;
+  // Bundle ID globs or app names; empty imports every app
+  apps: string[];
+  elementTypes?: ElementType[];
+  excludeApp?: (appBundleId: string) => string | undefined;
+}
+
+export interface SignatureImportReport {
+  dryRun: boolean;
+  strategy: ImportConflictStrategy;
+  // Records in the bundle, and those left out by the app and type filters
+  total: number;
+  filtered: number;
+  created: number;
+  overwritten: number;
+  skipped: number;
+  failed: number;
+  entries: ImportPlanEntry[];
 }
 
 export class UIScoutClient {
   private http: AxiosInstance;
+  private timeouts: Record<UIScoutEndpoint, number>;
+  private retry: RetryPolicy;
+  private policyDefaults: Partial<Policy>;
 
-  constructor(baseURL: string) {
+  constructor(private serviceURL: string, options: Partial<UIScoutClientOptions> = {}) {
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.policyDefaults = options.policy ?? {};
     this.http = axios.create({
-      baseURL: `${baseURL}/api/v1`,
-      timeout: 30000,
+      baseURL: `${serviceURL}/api/v1`,
       headers: {
         'Content-Type': 'application/json',
       },
     });
+
+    setupClientErrorHandling(this);
+  }
+
+  // The policy a call runs with: its own values over the configured defaults
+  // over the service defaults
+  resolvePolicy(policy?: Partial<Policy>): Policy {
+    return PolicySchema.parse({ ...this.policyDefaults, ...policy });
   }
 
-  // Health check
+  // Health check (served at the service root, outside /api/v1)
   async checkHealth(): Promise<boolean> {
     try {
-      const response = await this.http.get('/health', { timeout: 5000 });
-      return response.status === 200;
+      await this.getHealth();
+      return true;
     } catch {
       return false;
     }
   }
 
+  async getHealth(timeoutMs: number = this.timeouts.health, signal?: AbortSignal): Promise<HealthResponse> {
+    const response: AxiosResponse<HealthResponse> = await this.http.get('/health', {
+      baseURL: this.serviceURL,
+      timeout: timeoutMs,
+      signal,
+    });
+    return HealthResponseSchema.parse(response.data);
+  }
+
   // Find element
   async findElement(
     appBundleId: string,
     elementType: ElementType,
-    policy?: Partial<Policy>
+    policy?: Partial<Policy>,
+    signal?: AbortSignal
   ): Promise<ElementResult> {
     const requestData = {
       appBundleId,
       elementType,
-      policy: policy ? PolicySchema.parse(policy) : undefined,
+      policy: this.requestPolicy(policy),
     };
 
-    const response: AxiosResponse<ElementResult> = await this.http.post('/find', requestData);
+    const response: AxiosResponse<ElementResult> = await this.http.post('/find', requestData, {
+      timeout: this.timeouts.find,
+      signal,
+    });
     return ElementResultSchema.parse(response.data);
   }
 
@@ -142,80 +333,119 @@ export class UIScoutClient {
   async afterSendDiff(
     appBundleId: string,
     preSignature: ElementSignature,
-    policy?: Partial<Policy>
+    policy?: Partial<Policy>,
+    signal?: AbortSignal
   ): Promise<ElementResult> {
     const requestData = {
       appBundleId,
       preSignature: ElementSignatureSchema.parse(preSignature),
-      policy: policy ? PolicySchema.parse(policy) : undefined,
+      policy: this.requestPolicy(policy),
     };
 
-    const response: AxiosResponse<ElementResult> = await this.http.post('/after-send-diff', requestData);
+    const response: AxiosResponse<ElementResult> = await this.http.post('/after-send-diff', requestData, {
+      timeout: this.timeouts.afterSendDiff,
+      signal,
+    });
     return ElementResultSchema.parse(response.data);
   }
 
-  // Observe element (streaming)
+  // Observe element (streaming). If the connection drops before the
+  // observation is complete and the service tagged its events with IDs, the
+  // stream is resumed with Last-Event-ID for the remaining duration.
+  // Malformed events are skipped and reported through `onSkipped`.
   async* observeElement(
     appBundleId: string,
     signature: ElementSignature,
     durationSeconds: number,
-    policy?: Partial<Policy>
+    policy?: Partial<Policy>,
+    signal?: AbortSignal,
+    onSkipped?: (reason: string) => void
   ): AsyncGenerator<ObservationEvent, void, unknown> {
     const requestData = {
       appBundleId,
       signature: ElementSignatureSchema.parse(signature),
       durationSeconds,
-      policy: policy ? PolicySchema.parse(policy) : undefined,
+      policy: this.requestPolicy(policy),
     };
+    const deadline = Date.now() + durationSeconds * 1000;
+    let lastEventId = '';
 
-    const response = await this.http.post('/observe', requestData, {
-      responseType: 'stream',
-      timeout: (durationSeconds + 5) * 1000, // Add buffer to timeout
-    });
+    for (let attempt = 0; ; attempt++) {
+      const remainingSeconds = Math.max(1, Math.ceil((deadline - Date.now()) / 1000));
+      const response = await this.http.post('/observe', { ...requestData, durationSeconds: remainingSeconds }, {
+        responseType: 'stream',
+        timeout: remainingSeconds * 1000 + this.timeouts.observe,
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId } : undefined,
+        signal,
+      });
 
-    const stream = response.data;
-    let buffer = '';
-
-    for await (const chunk of stream) {
-      buffer += chunk.toString();
-      
-      // Process complete SSE messages
-      let lineEnd;
-      while ((lineEnd = buffer.indexOf('\n\n')) !== -1) {
-        const message = buffer.slice(0, lineEnd);
-        buffer = buffer.slice(lineEnd + 2);
-
-        if (message.startsWith('data: ')) {
-          const data = message.slice(6).trim();
-          if (data) {
-            try {
-              const event: ObservationEvent = JSON.parse(data);
-              yield event;
-              
-              if (event.type === 'complete') {
-                return;
-              }
-            } catch (error) {
-              console.error('Failed to parse SSE message:', data, error);
-            }
+      const stream = response.data;
+      const decoder = new SSEDecoder();
+      decoder.lastEventId = lastEventId;
+      let dropped: unknown;
+
+      try {
+        for await (const message of readSSE(stream, decoder)) {
+          // Named events are not observation events
+          if (message.event !== 'message') {
+            continue;
+          }
+          const parsed = ObservationMessageSchema.safeParse(message.data);
+          if (!parsed.success) {
+            onSkipped?.(parsed.error.issues.map((issue) => issue.message).join('; '));
+            continue;
           }
+          const event = parsed.data;
+          yield event;
+
+          if (event.type === 'complete') {
+            return;
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new UIScoutClientError('Request was cancelled', undefined, undefined, 'aborted', 'POST /observe');
         }
+        dropped = error;
+      } finally {
+        // Close the connection when the consumer stops early or the request is cancelled
+        stream.destroy();
       }
+
+      lastEventId = decoder.lastEventId;
+      const resumable = lastEventId !== '' && Date.now() < deadline && attempt < this.retry.retries;
+      if (!resumable) {
+        if (dropped instanceof SSETruncatedError) {
+          throw dropped;
+        }
+        if (dropped) {
+          const reason = dropped instanceof Error ? dropped.message : String(dropped);
+          throw new UIScoutClientError(`Observe stream was interrupted: ${reason}`, undefined, undefined, 'network', 'POST /observe');
+        }
+        // The service closed the stream without a completion event
+        return;
+      }
+
+      await sleep(decoder.retry ?? this.retry.baseDelayMs, signal);
     }
   }
 
   // Capture snapshot
   async captureSnapshot(
     appBundleId: string,
-    signature: ElementSignature
+    signature: ElementSignature,
+    signal?: AbortSignal
   ): Promise<{ snapshot: ElementSnapshot | null; success: boolean; error?: string }> {
     const requestData = {
       appBundleId,
       signature: ElementSignatureSchema.parse(signature),
     };
 
-    const response = await this.http.post('/snapshot', requestData);
-    
+    const response = await this.withRetry(signal, () => this.http.post('/snapshot', requestData, {
+      timeout: this.timeouts.snapshot,
+      signal,
+    }));
+
     const result = {
       snapshot: response.data.snapshot ? ElementSnapshotSchema.parse(response.data.snapshot) : null,
       success: response.data.success,
@@ -225,11 +455,32 @@ export class UIScoutClient {
     return result;
   }
 
+  // Send message (set input value, press send, evaluate reply diff)
+  async sendMessage(
+    appBundleId: string,
+    text: string,
+    policy?: Partial<Policy>,
+    signal?: AbortSignal
+  ): Promise<SendResponse> {
+    const requestData = {
+      appBundleId,
+      text,
+      policy: this.requestPolicy(policy),
+    };
+
+    const response: AxiosResponse<SendResponse> = await this.http.post('/send', requestData, {
+      timeout: this.timeouts.send,
+      signal,
+    });
+    return SendResponseSchema.parse(response.data);
+  }
+
   // Learn signature
   async learnSignature(
     signature: ElementSignature,
     pin: boolean = false,
-    decay: boolean = false
+    decay: boolean = false,
+    signal?: AbortSignal
   ): Promise<{ success: boolean; action: string; signatureId: string }> {
     const requestData = {
       signature: ElementSignatureSchema.parse(signature),
@@ -237,40 +488,210 @@ export class UIScoutClient {
       decay,
     };
 
-    const response = await this.http.post('/learn', requestData);
+    const response = await this.http.post('/learn', requestData, {
+      timeout: this.timeouts.learn,
+      signal,
+    });
     return response.data;
   }
 
   // Get status
-  async getStatus(): Promise<StatusResponse> {
-    const response: AxiosResponse<StatusResponse> = await this.http.get('/status');
+  async getStatus(signal?: AbortSignal): Promise<StatusResponse> {
+    const response: AxiosResponse<StatusResponse> = await this.withRetry(signal, () => this.http.get('/status', {
+      timeout: this.timeouts.status,
+      signal,
+    }));
     return StatusResponseSchema.parse(response.data);
   }
 
   // List signatures
   async listSignatures(
     appBundleId?: string,
-    elementType?: ElementType
-  ): Promise<{ signatures: ElementSignature[]; count: number }> {
+    elementType?: ElementType,
+    signal?: AbortSignal
+  ): Promise<{ signatures: ElementSignature[]; count: number; skipped: number }> {
     const params = new URLSearchParams();
     if (appBundleId) params.set('app', appBundleId);
     if (elementType) params.set('type', elementType);
 
-    const response = await this.http.get('/signatures', { params });
-    
-    const signatures = response.data.signatures.map((sig: any) => ElementSignatureSchema.parse(sig));
+    const response = await this.withRetry(signal, () => this.http.get('/signatures', {
+      params,
+      timeout: this.timeouts.signatures,
+      signal,
+    }));
+
+    // Skip signatures we can't parse (e.g. element types newer than this client)
+    // rather than failing the whole listing
+    const signatures: ElementSignature[] = [];
+    let skipped = 0;
+    for (const sig of response.data.signatures) {
+      const parsed = ElementSignatureSchema.safeParse(sig);
+      if (parsed.success) {
+        signatures.push(parsed.data);
+      } else {
+        skipped++;
+      }
+    }
+
     return {
       signatures,
-      count: response.data.count,
+      count: signatures.length,
+      skipped,
+    };
+  }
+
+  // Bundle the stored signatures, optionally for one app and element type
+  async exportSignatures(
+    options: SignatureExportOptions = {},
+    signal?: AbortSignal
+  ): Promise<{ bundle: SignatureBundle; skipped: number; excluded: number }> {
+    const { signatures, skipped } = await this.listSignatures(options.appBundleId, options.elementType, signal);
+    const included = signatures.filter((sig) => !options.excludeApp?.(sig.appBundleId));
+    const records = included.map((signature) => ({ signature, pinned: options.pinned ?? false }));
+
+    const bundle: SignatureBundle = {
+      format: SIGNATURE_BUNDLE_FORMAT,
+      version: SIGNATURE_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: {
+        serviceUrl: this.serviceURL,
+        appBundleId: options.appBundleId,
+        elementType: options.elementType,
+        pinState: options.pinned === undefined ? 'unknown' : 'caller',
+      },
+      signatures: records,
+      checksum: bundleChecksum(SIGNATURE_BUNDLE_FORMAT, SIGNATURE_BUNDLE_VERSION, records),
+    };
+    return { bundle, skipped, excluded: signatures.length - included.length };
+  }
+
+  // Store the signatures of a bundle. Records are checked against what the
+  // service already has and, unless this is a dry run, learned one by one;
+  // a failed record doesn't stop the rest.
+  async importSignatures(
+    bundle: unknown,
+    options: Partial<SignatureImportOptions> = {},
+    signal?: AbortSignal
+  ): Promise<SignatureImportReport> {
+    const { strategy = 'skip', dryRun = false, apps = [], elementTypes, excludeApp } = options;
+    const parsed = parseSignatureBundle(bundle);
+    const { signatures: existing } = await this.listSignatures(undefined, undefined, signal);
+
+    const matchesApp = (app: string) => apps.length === 0 || apps.some((pattern) => matchesAppPattern(pattern, app));
+    const { entries, filtered } = planImport(parsed.signatures, existing, strategy, matchesApp, elementTypes, excludeApp);
+
+    if (!dryRun) {
+      for (const [index, entry] of entries.entries()) {
+        if (entry.action === 'skip') {
+          continue;
+        }
+        signal?.throwIfAborted();
+        const { signature, pinned } = parsed.signatures.find((record) => signatureKey(record.signature) === signatureKey(entry))!;
+        try {
+          // The service only pins signatures it already stores, so a pinned
+          // record is stored first and pinned afterwards
+          let result = await this.learnSignature(signature, false, false, signal);
+          if (result.success !== false && pinned) {
+            result = await this.learnSignature(signature, true, false, signal);
+          }
+          entries[index] = { ...entry, applied: result.success !== false };
+        } catch (error) {
+          if (error instanceof UIScoutClientError && error.kind === 'aborted') {
+            throw error;
+          }
+          entries[index] = { ...entry, applied: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+    }
+
+    const count = (action: ImportAction) => entries.filter((entry) => entry.action === action).length;
+    return {
+      dryRun,
+      strategy,
+      total: parsed.signatures.length,
+      filtered,
+      created: count('create'),
+      overwritten: count('overwrite'),
+      skipped: count('skip'),
+      failed: entries.filter((entry) => entry.applied === false).length,
+      entries,
     };
   }
+
+  // Leave the policy out, so the service applies its own, unless the call or the configuration sets one
+  private requestPolicy(policy?: Partial<Policy>): Policy | undefined {
+    return policy || Object.keys(this.policyDefaults).length > 0 ? this.resolvePolicy(policy) : undefined;
+  }
+
+  // Retry a request that is safe to repeat, with exponential backoff and full
+  // jitter, when the service is unreachable, slow or temporarily unavailable
+  private async withRetry<T>(signal: AbortSignal | undefined, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= this.retry.retries || !isRetryable(error) || signal?.aborted) {
+          throw error;
+        }
+        const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+        await sleep(Math.random() * ceiling, signal);
+      }
+    }
+  }
 }
 
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof UIScoutClientError)) {
+    return false;
+  }
+  if (error.kind === 'http') {
+    return error.statusCode === 502 || error.statusCode === 503 || error.statusCode === 504;
+  }
+  return error.kind === 'network' || error.kind === 'timeout';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UIScoutClientError('Request was cancelled', undefined, undefined, 'aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Validate a bundle and its checksum before any of it is trusted
+export function parseSignatureBundle(value: unknown): SignatureBundle {
+  const result = SignatureBundleSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new SignatureBundleError('Invalid signature bundle', issues);
+  }
+
+  const bundle = result.data;
+  const expected = bundleChecksum(bundle.format, bundle.version, bundle.signatures);
+  if (bundle.checksum !== expected) {
+    throw new SignatureBundleError('Signature bundle checksum does not match its contents; the file was modified or truncated');
+  }
+  return bundle;
+}
+
+// How a request failed: the service answered with an error status, didn't
+// answer in time, couldn't be reached, was cancelled by the caller, or the
+// request never went out
+export type UIScoutClientErrorKind = 'http' | 'timeout' | 'network' | 'aborted' | 'request';
+
 export class UIScoutClientError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
-    public response?: any
+    public response?: any,
+    public kind: UIScoutClientErrorKind = 'http',
+    public endpoint?: string
   ) {
     super(message);
     this.name = 'UIScoutClientError';
@@ -284,16 +705,24 @@ export function setupClientErrorHandling(client: UIScoutClient): void {
   httpClient.interceptors.response.use(
     (response: AxiosResponse) => response,
     (error: any) => {
+      const endpoint = error.config ? `${(error.config.method ?? 'get').toUpperCase()} ${error.config.url}` : undefined;
+
       if (error.response) {
-        // Server responded with error status
-        const message = error.response.data?.message || error.response.statusText || 'API request failed';
-        throw new UIScoutClientError(message, error.response.status, error.response.data);
+        // Server responded with error status (Vapor puts the message in `reason`)
+        const data = error.response.data;
+        const message = data?.reason || data?.message || error.response.statusText || 'API request failed';
+        throw new UIScoutClientError(message, error.response.status, data, 'http', endpoint);
+      } else if (axios.isCancel(error)) {
+        throw new UIScoutClientError('Request was cancelled', undefined, undefined, 'aborted', endpoint);
+      } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw new UIScoutClientError(`UIScout service did not respond in time (${endpoint})`, undefined, undefined, 'timeout', endpoint);
       } else if (error.request) {
         // Request was made but no response received
-        throw new UIScoutClientError('No response from UIScout service. Is it running?');
+        const reason = error.code ? ` (${error.code})` : '';
+        throw new UIScoutClientError(`No response from UIScout service${reason}. Is it running?`, undefined, undefined, 'network', endpoint);
       } else {
         // Something else happened
-        throw new UIScoutClientError(`Request setup failed: ${error.message}`);
+        throw new UIScoutClientError(`Request setup failed: ${error.message}`, undefined, undefined, 'request', endpoint);
       }
     }
   );
@@ -0,0 +1,186 @@
+import { ElementSignature, ElementSnapshot, Policy, UIScoutClient } from './client.js';
+
+export interface ReplyWaitOptions {
+  // Declare the reply complete once it hasn't changed for this long
+  quietPeriodMs: number;
+  // Give up after this long, complete or not
+  timeoutMs: number;
+  // How often to snapshot when no accessibility events arrive
+  pollIntervalMs: number;
+  // Wait for the reply to change at least once before the quiet period counts
+  requireChange: boolean;
+  policy?: Partial<Policy>;
+  signal?: AbortSignal;
+  // Called whenever the reply grows or shrinks
+  onChange?: (point: ReplyTimelinePoint) => Promise<void> | void;
+}
+
+export interface ReplyTimelinePoint {
+  // Seconds since the wait started
+  offset: number;
+  textLength: number;
+  childCount: number;
+  // What prompted the snapshot: the first look, an accessibility event or the poll timer
+  trigger: 'initial' | 'event' | 'poll';
+}
+
+export interface ReplyWaitResult {
+  completed: boolean;
+  reason: 'quiet' | 'timeout';
+  elapsedMs: number;
+  snapshot: ElementSnapshot | null;
+  timeline: ReplyTimelinePoint[];
+  // How often the reply changed after the first snapshot
+  changes: number;
+  eventsObserved: number;
+  snapshotsTaken: number;
+  // Set when the observe stream failed; polling carries on without it
+  observeError?: string;
+}
+
+export const DEFAULT_REPLY_WAIT: Pick<ReplyWaitOptions, 'quietPeriodMs' | 'timeoutMs' | 'pollIntervalMs' | 'requireChange'> = {
+  quietPeriodMs: 2000,
+  timeoutMs: 60000,
+  pollIntervalMs: 500,
+  requireChange: true,
+};
+
+// Wait until a reply element stops changing. Accessibility events from the
+// observe stream trigger an immediate snapshot; a poll timer covers apps that
+// don't post notifications while they stream text.
+export async function waitForReplyComplete(
+  client: UIScoutClient,
+  appBundleId: string,
+  signature: ElementSignature,
+  options: Partial<ReplyWaitOptions> = {}
+): Promise<ReplyWaitResult> {
+  const { quietPeriodMs, timeoutMs, pollIntervalMs, requireChange, policy, signal, onChange } = {
+    ...DEFAULT_REPLY_WAIT,
+    ...options,
+  };
+  const startedAt = Date.now();
+  const deadline = startedAt + timeoutMs;
+
+  const observer = new AbortController();
+  const stopObserving = () => observer.abort();
+  signal?.addEventListener('abort', stopObserving, { once: true });
+
+  let wake: (() => void) | undefined;
+  let eventsObserved = 0;
+  let observeError: string | undefined;
+  let pendingEvent = false;
+
+  const observing = (async () => {
+    try {
+      for await (const event of client.observeElement(
+        appBundleId,
+        signature,
+        Math.ceil(timeoutMs / 1000),
+        policy,
+        observer.signal
+      )) {
+        if (event.type === 'complete') {
+          break;
+        }
+        eventsObserved++;
+        pendingEvent = true;
+        wake?.();
+      }
+    } catch (error) {
+      if (!observer.signal.aborted) {
+        observeError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  })();
+
+  const timeline: ReplyTimelinePoint[] = [];
+  let latest: ElementSnapshot | null = null;
+  let snapshotsTaken = 0;
+  let lastChangeAt = startedAt;
+  let changes = 0;
+
+  const sample = async (trigger: ReplyTimelinePoint['trigger']) => {
+    const result = await client.captureSnapshot(appBundleId, signature, signal);
+    snapshotsTaken++;
+    if (!result.success || !result.snapshot) {
+      return;
+    }
+
+    const snapshot = result.snapshot;
+    const previous = latest;
+    // The first snapshot that succeeds is the baseline, not a change
+    const baseline = previous === null;
+    const grew = previous === null
+      || snapshot.textLength !== previous.textLength
+      || snapshot.childCount !== previous.childCount;
+    latest = snapshot;
+    if (!grew) {
+      return;
+    }
+
+    const now = Date.now();
+    const point: ReplyTimelinePoint = {
+      offset: Math.round((now - startedAt) / 100) / 10,
+      textLength: snapshot.textLength,
+      childCount: snapshot.childCount,
+      trigger,
+    };
+    timeline.push(point);
+    if (!baseline) {
+      changes++;
+      lastChangeAt = now;
+    }
+    await onChange?.(point);
+  };
+
+  try {
+    await sample('initial');
+
+    for (;;) {
+      const now = Date.now();
+      const quietUntil = lastChangeAt + quietPeriodMs;
+      if ((changes > 0 || !requireChange) && now >= quietUntil) {
+        return result('quiet');
+      }
+      if (now >= deadline) {
+        return result('timeout');
+      }
+
+      const waitMs = Math.min(pollIntervalMs, deadline - now, Math.max(0, quietUntil - now) || pollIntervalMs);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, waitMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        if (pendingEvent || signal?.aborted) {
+          wake();
+        }
+      });
+      wake = undefined;
+
+      const trigger = pendingEvent ? 'event' : 'poll';
+      pendingEvent = false;
+      // captureSnapshot throws when the request was cancelled
+      await sample(trigger);
+    }
+  } finally {
+    observer.abort();
+    signal?.removeEventListener('abort', stopObserving);
+    await observing;
+  }
+
+  function result(reason: ReplyWaitResult['reason']): ReplyWaitResult {
+    return {
+      completed: reason === 'quiet',
+      reason,
+      elapsedMs: Date.now() - startedAt,
+      snapshot: latest,
+      timeline,
+      changes,
+      eventsObserved,
+      snapshotsTaken,
+      observeError,
+    };
+  }
+}
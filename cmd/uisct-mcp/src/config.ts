@@ -0,0 +1,327 @@
+import { existsSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { ApprovalEntrySchema } from './approval.js';
+import { BackendsConfigSchema } from './backends.js';
+import { HttpTransportOptions } from './http.js';
+import { DEFAULT_MIN_CONFIDENCE, DEFAULT_RETRY_POLICY, Policy, UIScoutEndpoint } from './client.js';
+import { DEFAULT_SERVICE_URL, UIScoutMCPServerOptions } from './server.js';
+
+const SIZE_UNITS: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+// A byte count or a size such as "10MB", as written in config/ui-scout.json
+const SizeSchema = z.union([
+  z.number().int().positive(),
+  z.string().regex(/^\d+(\.\d+)?\s*(B|KB|MB|GB)$/i, 'Expected a size such as "10MB"'),
+]).transform((size) => {
+  if (typeof size === 'number') {
+    return size;
+  }
+  const [, amount, unit] = size.match(/^(\d+(?:\.\d+)?)\s*(\w+)$/)!;
+  return Math.round(Number(amount) * SIZE_UNITS[unit.toUpperCase()]);
+});
+
+const TimeoutSchema = z.number().int().positive();
+
+// Shares the layout of config/ui-scout.json. Sections only the Swift service
+// reads are passed through; the "mcp" section is specific to this wrapper.
+// server.host and server.port are the service's own settings, so the address
+// this wrapper connects to is mcp.service_url instead.
+const ConfigObjectSchema = z.object({
+  server: z.object({
+    // Timeout for quick requests (health, status, snapshot, learn)
+    timeout_ms: TimeoutSchema,
+  }).passthrough(),
+  confidence: z.object({
+    minimum_threshold: z.number().min(0).max(1),
+    // Used as the default policy minConfidence
+    high_confidence_threshold: z.number().min(0).max(1),
+  }).passthrough(),
+  logging: z.object({
+    level: z.enum(['debug', 'info', 'warn', 'error']),
+    // JSONL audit log of tool calls and security decisions; rotates like the log file
+    audit_file: z.string().min(1).optional(),
+    max_file_size: SizeSchema,
+    max_files: z.number().int().min(1),
+  }).passthrough(),
+  security: z.object({
+    require_user_approval: z.boolean(),
+    sandbox_mode: z.boolean(),
+    allowed_applications: z.array(z.string()),
+    blocked_applications: z.array(z.string()),
+  }).passthrough(),
+  mcp: z.object({
+    // Where the UIScout HTTP service listens, e.g. "http://build-mac.local:8080"
+    service_url: z.string().url(),
+    // How MCP hosts connect: spawned over stdio, or to a shared HTTP server
+    transport: z.enum(['stdio', 'http']),
+    http: z.object({
+      host: z.string().min(1),
+      port: z.number().int().min(0).max(65535),
+      path: z.string().startsWith('/'),
+      // Bearer token clients must send; prefer UISCOUT_MCP_TOKEN over writing it to a file
+      token: z.string().min(16, 'Use a token of at least 16 characters'),
+      max_sessions: z.number().int().min(1),
+      // Close sessions that have sent no requests for this long
+      idle_timeout_minutes: z.number().positive(),
+    }).partial().strict(),
+    retries: z.number().int().min(0).max(10),
+    handle_ttl_minutes: z.number().positive(),
+    // Per-endpoint overrides in milliseconds
+    timeouts: z.object({
+      health: TimeoutSchema,
+      find: TimeoutSchema,
+      afterSendDiff: TimeoutSchema,
+      observe: TimeoutSchema,
+      snapshot: TimeoutSchema,
+      send: TimeoutSchema,
+      learn: TimeoutSchema,
+      status: TimeoutSchema,
+      signatures: TimeoutSchema,
+    }).partial().strict(),
+    // Policy defaults for tool calls that don't set them
+    policy: z.object({
+      allow_peek: z.boolean(),
+      // Whole numbers: the service decodes them as Int
+      max_peek_ms: z.number().int().positive(),
+      rate_limit_peek_seconds: z.number().int().positive(),
+    }).partial().strict(),
+    backends: BackendsConfigSchema.optional(),
+    // Directory of *.json prompt files loaded at startup
+    prompts_dir: z.string().min(1),
+    // Directory exportSignatures and importSignatures keep bundle files in
+    bundles_dir: z.string().min(1),
+    // Applies when security.require_user_approval is set
+    approval: z.object({
+      // Tool names or globs that need approval
+      tools: z.array(z.string().min(1)),
+      // Apps that need approval; empty means every app
+      apps: z.array(z.string().min(1)),
+      // Standing approvals, e.g. {"tool": "sendMessage", "app": "com.raycast.*"}
+      allowlist: z.array(ApprovalEntrySchema),
+      // JSON file of {"approvals": [...]} re-read on every gated call
+      file: z.string().min(1),
+    }).partial().strict(),
+  }).strict(),
+}).passthrough();
+
+export const ConfigSchema = ConfigObjectSchema.superRefine((config, ctx) => {
+  if (config.confidence.minimum_threshold > config.confidence.high_confidence_threshold) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['confidence', 'minimum_threshold'],
+      message: 'Must not be above confidence.high_confidence_threshold',
+    });
+  }
+});
+
+export type UIScoutConfig = z.infer<typeof ConfigSchema>;
+
+// A layer may set any subset of the configuration
+const ConfigLayerSchema = ConfigObjectSchema.deepPartial();
+
+type Layer = Record<string, unknown>;
+
+export const DEFAULT_CONFIG = {
+  server: { timeout_ms: 5000 },
+  confidence: { minimum_threshold: 0.3, high_confidence_threshold: DEFAULT_MIN_CONFIDENCE },
+  logging: { level: 'info', max_file_size: '10MB', max_files: 5 },
+  security: { require_user_approval: false, sandbox_mode: false, allowed_applications: [], blocked_applications: [] },
+  mcp: { service_url: DEFAULT_SERVICE_URL, transport: 'stdio', http: {}, retries: DEFAULT_RETRY_POLICY.retries, handle_ttl_minutes: 30, timeouts: {}, policy: {}, approval: {} },
+};
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}\n${issues.map((issue) => `  ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigSources {
+  // Explicit config file (--config); must exist
+  configFile?: string;
+  // Defaults to $XDG_CONFIG_HOME/ui-scout or ~/.config/ui-scout; config.json there is optional
+  userConfigDir?: string;
+  env?: NodeJS.ProcessEnv;
+  // Values from command line flags, already shaped like the config
+  flags?: Layer;
+}
+
+// Merge, lowest precedence first: built-in defaults, the user config
+// directory, the --config file, environment variables and command line flags
+export function loadConfig(sources: ConfigSources = {}): UIScoutConfig {
+  const env = sources.env ?? process.env;
+
+  const userConfigDir = sources.userConfigDir ?? defaultUserConfigDir(env);
+  const userFile = path.join(userConfigDir, 'config.json');
+  // The audit log, prompts and bundles live next to the user config unless configured elsewhere
+  const defaults = {
+    ...DEFAULT_CONFIG,
+    logging: { ...DEFAULT_CONFIG.logging, audit_file: path.join(userConfigDir, 'audit.jsonl') },
+    mcp: { ...DEFAULT_CONFIG.mcp, prompts_dir: path.join(userConfigDir, 'prompts'), bundles_dir: path.join(userConfigDir, 'bundles') },
+  };
+
+  const layers: Array<[string, Layer]> = [['defaults', defaults]];
+  if (existsSync(userFile)) {
+    layers.push([userFile, readJsonFile(userFile)]);
+  }
+  if (sources.configFile) {
+    layers.push([sources.configFile, readJsonFile(sources.configFile)]);
+  }
+  layers.push(['environment', envLayer(env)]);
+  layers.push(['command line', sources.flags ?? {}]);
+
+  // Check each layer on its own so errors name the file or source at fault
+  let merged: Layer = {};
+  for (const [source, layer] of layers) {
+    const result = ConfigLayerSchema.safeParse(layer);
+    if (!result.success) {
+      throw new ConfigError(`Invalid configuration in ${source}:`, source, formatIssues(result.error));
+    }
+    merged = mergeLayer(merged, layer);
+  }
+
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new ConfigError('Invalid configuration:', 'merged', formatIssues(result.error));
+  }
+  return result.data;
+}
+
+export function readJsonFile(file: string): Layer {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`, file);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Config file ${file} is not valid JSON: ${error instanceof Error ? error.message : error}`, file);
+  }
+}
+
+export function serviceUrlOf(config: UIScoutConfig): string {
+  return config.mcp.service_url;
+}
+
+// --host/--port and UISCOUT_HOST/UISCOUT_PORT give the service address in
+// parts; a part that isn't given keeps the service's default
+export function serviceUrlFrom(host?: string, port?: string | number): string | undefined {
+  if (host === undefined && port === undefined) {
+    return undefined;
+  }
+  const defaults = new URL(DEFAULT_SERVICE_URL);
+  return `http://${host ?? defaults.hostname}:${port ?? defaults.port}`;
+}
+
+export function serverOptionsFromConfig(config: UIScoutConfig): UIScoutMCPServerOptions {
+  // Unset values fall through to the service defaults
+  const policy: Partial<Policy> = {
+    minConfidence: config.confidence.high_confidence_threshold,
+    allowPeek: config.mcp.policy.allow_peek,
+    maxPeekMs: config.mcp.policy.max_peek_ms,
+    rateLimitPeekSeconds: config.mcp.policy.rate_limit_peek_seconds,
+  };
+
+  const quick = config.server.timeout_ms;
+  const timeouts: Partial<Record<UIScoutEndpoint, number>> = {
+    health: quick,
+    status: quick,
+    snapshot: quick,
+    learn: quick,
+    ...config.mcp.timeouts,
+  };
+
+  return {
+    serviceUrl: serviceUrlOf(config),
+    backends: config.mcp.backends,
+    clientOptions: { timeouts, retry: { retries: config.mcp.retries }, policy },
+    handleTtlMinutes: config.mcp.handle_ttl_minutes,
+    access: {
+      allowed: config.security.allowed_applications,
+      blocked: config.security.blocked_applications,
+    },
+    audit: {
+      file: config.logging.audit_file,
+      maxFileSize: config.logging.max_file_size,
+      maxFiles: config.logging.max_files,
+    },
+    approval: {
+      required: config.security.require_user_approval,
+      tools: config.mcp.approval.tools,
+      apps: config.mcp.approval.apps,
+      allowlist: config.mcp.approval.allowlist,
+      file: config.mcp.approval.file,
+    },
+    bundlesDir: config.mcp.bundles_dir,
+    debug: config.logging.level === 'debug',
+  };
+}
+
+export function httpOptionsFromConfig(config: UIScoutConfig): Partial<HttpTransportOptions> {
+  const { host, port, path, token, max_sessions, idle_timeout_minutes } = config.mcp.http;
+  return {
+    host,
+    port,
+    path,
+    token,
+    maxSessions: max_sessions,
+    idleTimeoutMs: idle_timeout_minutes !== undefined ? idle_timeout_minutes * 60 * 1000 : undefined,
+  };
+}
+
+function defaultUserConfigDir(env: NodeJS.ProcessEnv): string {
+  return path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'ui-scout');
+}
+
+// Numeric variables are converted here and checked by the schema like any other layer
+function envLayer(env: NodeJS.ProcessEnv): Layer {
+  const number = (value: string) => (value.trim() === '' ? NaN : Number(value));
+  const layer: Layer = {};
+  const set = (keys: string[], value: unknown) => {
+    let target = layer;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as Layer;
+    }
+    target[keys[keys.length - 1]] = value;
+  };
+
+  // UI_SCOUT_URL is the name used in existing MCP client setups
+  const url = env.UISCOUT_URL ?? env.UI_SCOUT_URL ?? serviceUrlFrom(env.UISCOUT_HOST, env.UISCOUT_PORT);
+  if (url !== undefined) set(['mcp', 'service_url'], url);
+  if (env.UISCOUT_MIN_CONFIDENCE !== undefined) set(['confidence', 'high_confidence_threshold'], number(env.UISCOUT_MIN_CONFIDENCE));
+  if (env.UISCOUT_RETRIES !== undefined) set(['mcp', 'retries'], number(env.UISCOUT_RETRIES));
+  if (env.UISCOUT_LOG_LEVEL !== undefined) set(['logging', 'level'], env.UISCOUT_LOG_LEVEL);
+  if (env.UISCOUT_MCP_TRANSPORT !== undefined) set(['mcp', 'transport'], env.UISCOUT_MCP_TRANSPORT);
+  if (env.UISCOUT_MCP_TOKEN !== undefined) set(['mcp', 'http', 'token'], env.UISCOUT_MCP_TOKEN);
+  if (env.UISCOUT_AUDIT_FILE !== undefined) set(['logging', 'audit_file'], env.UISCOUT_AUDIT_FILE);
+  return layer;
+}
+
+// Objects merge key by key; arrays and scalars from the higher layer replace
+function mergeLayer(base: Layer, layer: Layer): Layer {
+  const merged: Layer = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeLayer(current, value) : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Layer {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
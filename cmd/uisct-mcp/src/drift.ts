@@ -0,0 +1,247 @@
+import type { ElementSignature } from './client.js';
+
+export const COMPARED_FIELDS = [
+  'role',
+  'subroles',
+  'frameHash',
+  'pathHint',
+  'siblingRoles',
+  'attrs',
+  'readOnly',
+  'scrollable',
+  'stability',
+] as const;
+
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+// How much a change in each field can break a match. The service matches a
+// stored signature by role first and then by its place in the window, so
+// those weigh most; a stability drop is a symptom of failed matches rather
+// than a cause, so it weighs least.
+const FIELD_WEIGHTS: Record<ComparedField, number> = {
+  role: 1,
+  pathHint: 0.8,
+  subroles: 0.6,
+  frameHash: 0.5,
+  readOnly: 0.5,
+  scrollable: 0.4,
+  siblingRoles: 0.35,
+  attrs: 0.25,
+  stability: 0.2,
+};
+
+export interface FieldDiff {
+  field: ComparedField;
+  changed: boolean;
+  baseline: unknown;
+  current: unknown;
+  // Set for list and attrs fields
+  added?: string[];
+  removed?: string[];
+  // 0-1: how likely this difference explains a failed match
+  impact: number;
+  detail: string;
+}
+
+export interface SignatureComparison {
+  identical: boolean;
+  // 1 when every compared field matches
+  similarity: number;
+  diffs: FieldDiff[];
+  // Changed fields, most likely cause first
+  likelyCauses: Array<Pick<FieldDiff, 'field' | 'impact' | 'detail'>>;
+  warnings: string[];
+}
+
+// Field-by-field diff of two signatures of the same element, e.g. the one
+// stored before an app update and the one found after it
+export function compareSignatures(baseline: ElementSignature, current: ElementSignature): SignatureComparison {
+  const warnings: string[] = [];
+  if (baseline.appBundleId !== current.appBundleId) {
+    warnings.push(`The signatures belong to different apps (${baseline.appBundleId} and ${current.appBundleId})`);
+  }
+  if (baseline.elementType !== current.elementType) {
+    warnings.push(`The signatures are for different element types (${baseline.elementType} and ${current.elementType})`);
+  }
+
+  const diffs = COMPARED_FIELDS.map((field) => {
+    const { magnitude, ...diff } = diffField(field, baseline, current);
+    return { field, ...diff, impact: round(FIELD_WEIGHTS[field] * magnitude) };
+  });
+
+  const totalWeight = Object.values(FIELD_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+  const distance = diffs.reduce((sum, diff) => sum + diff.impact, 0);
+  const likelyCauses = diffs
+    .filter((diff) => diff.changed)
+    .sort((a, b) => b.impact - a.impact)
+    .map(({ field, impact, detail }) => ({ field, impact, detail }));
+
+  return {
+    identical: likelyCauses.length === 0,
+    similarity: round(1 - distance / totalWeight),
+    diffs,
+    likelyCauses,
+    warnings,
+  };
+}
+
+type RawDiff = Omit<FieldDiff, 'field' | 'impact'> & { magnitude: number };
+
+function diffField(field: ComparedField, baseline: ElementSignature, current: ElementSignature): RawDiff {
+  switch (field) {
+    case 'role':
+      return diffValue(baseline.role, current.role, 'role');
+    case 'readOnly':
+      return diffValue(baseline.readOnly, current.readOnly, 'read-only flag');
+    case 'scrollable':
+      return diffValue(baseline.scrollable, current.scrollable, 'scrollable flag');
+    case 'subroles':
+      return diffList(baseline.subroles, current.subroles, 'subroles');
+    case 'siblingRoles':
+      return diffList(baseline.siblingRoles, current.siblingRoles, 'sibling roles');
+    case 'pathHint':
+      return diffPath(baseline.pathHint, current.pathHint);
+    case 'frameHash':
+      return diffFrame(baseline.frameHash, current.frameHash);
+    case 'attrs':
+      return diffAttrs(baseline.attrs, current.attrs);
+    case 'stability':
+      return diffStability(baseline.stability, current.stability);
+  }
+}
+
+function diffValue<T>(baseline: T, current: T, name: string): RawDiff {
+  const changed = baseline !== current;
+  return {
+    changed,
+    baseline,
+    current,
+    magnitude: changed ? 1 : 0,
+    detail: changed ? `${name} changed from ${JSON.stringify(baseline)} to ${JSON.stringify(current)}` : `same ${name}`,
+  };
+}
+
+// Set difference; a list with the same members in another order or count
+// counts as a small change
+function diffList(baseline: string[], current: string[], name: string): RawDiff {
+  const before = new Set(baseline);
+  const after = new Set(current);
+  const added = [...after].filter((item) => !before.has(item));
+  const removed = [...before].filter((item) => !after.has(item));
+  const union = new Set([...before, ...after]).size;
+  const reordered = added.length === 0 && removed.length === 0 && baseline.join('\n') !== current.join('\n');
+
+  let detail = `same ${name}`;
+  if (added.length || removed.length) {
+    detail = [
+      added.length ? `added ${added.join(', ')}` : '',
+      removed.length ? `removed ${removed.join(', ')}` : '',
+    ].filter(Boolean).join('; ');
+    detail = `${name}: ${detail}`;
+  } else if (reordered) {
+    detail = `same ${name} in a different order or count`;
+  }
+
+  return {
+    changed: added.length > 0 || removed.length > 0 || reordered,
+    baseline,
+    current,
+    added,
+    removed,
+    magnitude: union === 0 ? 0 : reordered ? 0.1 : (added.length + removed.length) / union,
+    detail,
+  };
+}
+
+// Path hints are compared step by step from the window down; the earlier
+// they diverge, the more of the tree around the element has changed
+function diffPath(baseline: string[], current: string[]): RawDiff {
+  let common = 0;
+  while (common < baseline.length && common < current.length && baseline[common] === current[common]) {
+    common++;
+  }
+  const length = Math.max(baseline.length, current.length);
+  const changed = common < length;
+
+  let detail = 'same accessibility path';
+  if (changed) {
+    const before = baseline[common] ?? '(end)';
+    const after = current[common] ?? '(end)';
+    detail = `accessibility path diverges at step ${common + 1}: ${before} → ${after}`;
+  }
+  return { changed, baseline, current, magnitude: changed ? 1 - common / length : 0, detail };
+}
+
+const READABLE_FRAME = /^w(-?\d+)-h(-?\d+)-x(-?\d+)-y(-?\d+)@/;
+
+// Newer services hash the frame, so only readable ("w400-h300-x0-y0@...")
+// hashes show whether the element moved or was resized
+function diffFrame(baseline: string, current: string): RawDiff {
+  if (baseline === current) {
+    return { changed: false, baseline, current, magnitude: 0, detail: 'same frame' };
+  }
+
+  const before = READABLE_FRAME.exec(baseline)?.slice(1).map(Number);
+  const after = READABLE_FRAME.exec(current)?.slice(1).map(Number);
+  if (!before || !after) {
+    return { changed: true, baseline, current, magnitude: 1, detail: 'frame hash changed: the element moved or was resized' };
+  }
+
+  const [w1, h1, x1, y1] = before;
+  const [w2, h2, x2, y2] = after;
+  const parts: string[] = [];
+  let magnitude = 0;
+  if (w1 !== w2 || h1 !== h2) {
+    parts.push(`resized from ${w1}x${h1} to ${w2}x${h2}`);
+    const growth = Math.max(Math.abs(w2 - w1) / Math.max(w1, 1), Math.abs(h2 - h1) / Math.max(h1, 1));
+    magnitude = growth > 0.2 ? 1 : 0.6;
+  }
+  if (x1 !== x2 || y1 !== y2) {
+    parts.push(`moved from (${x1}, ${y1}) to (${x2}, ${y2})`);
+    magnitude = Math.max(magnitude, 0.5);
+  }
+  return { changed: true, baseline, current, magnitude, detail: `frame ${parts.join(' and ')}` };
+}
+
+function diffAttrs(baseline: Record<string, any>, current: Record<string, any>): RawDiff {
+  const keys = new Set([...Object.keys(baseline), ...Object.keys(current)]);
+  const added = [...keys].filter((key) => !(key in baseline));
+  const removed = [...keys].filter((key) => !(key in current));
+  const modified = [...keys].filter((key) => key in baseline && key in current
+    && JSON.stringify(baseline[key]) !== JSON.stringify(current[key]));
+  const changes = added.length + removed.length + modified.length;
+
+  const detail = changes === 0
+    ? 'same attributes'
+    : `attributes: ${[
+      added.length ? `added ${added.join(', ')}` : '',
+      removed.length ? `removed ${removed.join(', ')}` : '',
+      modified.length ? `changed ${modified.join(', ')}` : '',
+    ].filter(Boolean).join('; ')}`;
+
+  return {
+    changed: changes > 0,
+    baseline,
+    current,
+    added,
+    removed,
+    magnitude: keys.size === 0 ? 0 : changes / keys.size,
+    detail,
+  };
+}
+
+// Only a drop counts: it means recent matches failed or scored low
+function diffStability(baseline: number, current: number): RawDiff {
+  const delta = round(current - baseline);
+  let detail = 'same stability';
+  if (delta < 0) {
+    detail = `stability dropped from ${round(baseline)} to ${round(current)}, so recent matches scored low`;
+  } else if (delta > 0) {
+    detail = `stability rose from ${round(baseline)} to ${round(current)}`;
+  }
+  return { changed: delta !== 0, baseline, current, magnitude: Math.max(0, -delta), detail };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,80 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ZodError } from 'zod';
+import { SignatureBundleError } from './bundles.js';
+import { UIScoutClientError } from './client.js';
+import { SSETruncatedError } from './sse.js';
+
+// Server-defined JSON-RPC error codes for UIScout service failures, kept clear
+// of the codes the MCP SDK uses from the same -32000 to -32099 range
+export enum UIScoutErrorCode {
+  // The service rejected the request (HTTP 4xx)
+  ServiceRejected = -32010,
+  // The service failed to handle the request (HTTP 5xx)
+  ServiceError = -32011,
+  // The service did not answer in time
+  ServiceTimeout = -32012,
+  // The service could not be reached
+  ServiceUnavailable = -32013,
+  // The app is excluded by the security allow/block lists
+  AccessDenied = -32014,
+  // The user or approval configuration did not approve the call
+  ApprovalDenied = -32015,
+  // A configuration file read while handling the call is invalid
+  ConfigInvalid = -32016,
+}
+
+// Map anything thrown while executing a tool to an MCP error the host can act on
+export function toMcpError(error: unknown, tool: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  if (error instanceof UIScoutClientError) {
+    const data = {
+      tool,
+      kind: error.kind,
+      status: error.statusCode,
+      endpoint: error.endpoint,
+      body: error.response,
+    };
+
+    switch (error.kind) {
+      case 'http': {
+        const code = error.statusCode !== undefined && error.statusCode < 500
+          ? UIScoutErrorCode.ServiceRejected
+          : UIScoutErrorCode.ServiceError;
+        return new McpError(code, `UIScout service returned HTTP ${error.statusCode} for ${error.endpoint}: ${error.message}`, data);
+      }
+      case 'timeout':
+        return new McpError(UIScoutErrorCode.ServiceTimeout, error.message, data);
+      case 'network':
+        return new McpError(UIScoutErrorCode.ServiceUnavailable, error.message, data);
+      default:
+        return new McpError(ErrorCode.InternalError, error.message, data);
+    }
+  }
+
+  if (error instanceof SSETruncatedError) {
+    return new McpError(UIScoutErrorCode.ServiceError, `UIScout service stream was cut off: ${error.message}`, {
+      tool,
+      lastEventId: error.lastEventId,
+    });
+  }
+
+  // A bundle given by the caller, not a service response
+  if (error instanceof SignatureBundleError) {
+    return new McpError(ErrorCode.InvalidParams, error.message, { tool, issues: error.issues });
+  }
+
+  // Tool arguments are validated before reaching the client, so a zod error
+  // here means the service sent a response we don't understand
+  if (error instanceof ZodError) {
+    return new McpError(ErrorCode.InternalError, `Unexpected response from UIScout service for ${tool}`, {
+      tool,
+      issues: error.issues.map((issue) => ({ field: issue.path.join('.'), message: issue.message })),
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new McpError(ErrorCode.InternalError, `Tool execution failed: ${message}`, { tool });
+}
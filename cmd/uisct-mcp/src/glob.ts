@@ -0,0 +1,13 @@
+// Glob patterns for app bundle IDs: "*" matches any run of characters and
+// "?" a single one. Matching ignores case, as bundle IDs do on macOS.
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function matchesGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
@@ -0,0 +1,128 @@
+import { ElementSignature } from './client.js';
+
+export const HANDLE_PATTERN = /^sig_\d+$/;
+
+export interface HandleEntry {
+  handle: string;
+  signature: ElementSignature;
+  source: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface SignatureRegistryOptions {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+const DEFAULT_OPTIONS: SignatureRegistryOptions = {
+  ttlMs: 30 * 60 * 1000,
+  maxEntries: 500,
+};
+
+// In-memory, per-server registry that hands out short handles (sig_1, sig_2, ...)
+// for signatures so agents don't have to copy whole signature objects around.
+// Entries expire after ttlMs without use; the least recently used entry is
+// dropped when maxEntries is reached.
+export class SignatureRegistry {
+  private entries = new Map<string, HandleEntry>();
+  private handlesByKey = new Map<string, string>();
+  private nextId = 1;
+  private options: SignatureRegistryOptions;
+
+  constructor(options: Partial<SignatureRegistryOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Register a signature and return its handle; the same element always maps to the same handle
+  register(signature: ElementSignature, source: string): string {
+    this.evictExpired();
+
+    const key = signatureKey(signature);
+    const now = Date.now();
+    const existing = this.handlesByKey.get(key);
+    if (existing) {
+      const entry = this.entries.get(existing)!;
+      entry.signature = signature;
+      entry.source = source;
+      entry.lastUsedAt = now;
+      return existing;
+    }
+
+    if (this.entries.size >= this.options.maxEntries) {
+      this.evictLeastRecentlyUsed();
+    }
+
+    const handle = `sig_${this.nextId++}`;
+    this.entries.set(handle, { handle, signature, source, createdAt: now, lastUsedAt: now });
+    this.handlesByKey.set(key, handle);
+    return handle;
+  }
+
+  resolve(handle: string): ElementSignature | undefined {
+    this.evictExpired();
+
+    const entry = this.entries.get(handle);
+    if (!entry) {
+      return undefined;
+    }
+    entry.lastUsedAt = Date.now();
+    return entry.signature;
+  }
+
+  list(): HandleEntry[] {
+    this.evictExpired();
+    return [...this.entries.values()];
+  }
+
+  // Remove the given handles, or all of them; returns how many were removed
+  clear(handles?: string[]): number {
+    const targets = handles ?? [...this.entries.keys()];
+    let removed = 0;
+    for (const handle of targets) {
+      if (this.remove(handle)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  get ttlMs(): number {
+    return this.options.ttlMs;
+  }
+
+  private remove(handle: string): boolean {
+    const entry = this.entries.get(handle);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(handle);
+    this.handlesByKey.delete(signatureKey(entry.signature));
+    return true;
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.options.ttlMs;
+    for (const entry of this.entries.values()) {
+      if (entry.lastUsedAt < cutoff) {
+        this.remove(entry.handle);
+      }
+    }
+  }
+
+  private evictLeastRecentlyUsed(): void {
+    let oldest: HandleEntry | undefined;
+    for (const entry of this.entries.values()) {
+      if (!oldest || entry.lastUsedAt < oldest.lastUsedAt) {
+        oldest = entry;
+      }
+    }
+    if (oldest) {
+      this.remove(oldest.handle);
+    }
+  }
+}
+
+function signatureKey(signature: ElementSignature): string {
+  return [signature.appBundleId, signature.elementType, signature.role, signature.frameHash, signature.pathHint.join('/')].join('|');
+}
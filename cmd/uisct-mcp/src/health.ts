@@ -0,0 +1,123 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutClient, UIScoutClientError } from './client.js';
+import { UIScoutErrorCode } from './errors.js';
+
+export type ConnectionState = 'unknown' | 'connected' | 'degraded' | 'down';
+
+export interface HealthSnapshot {
+  state: ConnectionState;
+  reason?: string;
+  latencyMs?: number;
+  checkedAt?: number;
+}
+
+export interface HealthMonitorOptions {
+  // How long a probe result is trusted before the next tool call re-probes
+  ttlMs: number;
+  // Probes slower than this mark the service as degraded
+  slowMs: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: HealthMonitorOptions = {
+  ttlMs: 10000,
+  slowMs: 1000,
+  timeoutMs: 3000,
+};
+
+// Tracks whether the UIScout service is reachable. Probes GET /health, caches
+// the result for ttlMs and also learns from the outcome of real tool calls,
+// so a healthy service isn't probed before every call and a dead one fails fast.
+export class HealthMonitor {
+  private snapshot: HealthSnapshot = { state: 'unknown' };
+  private pending?: Promise<HealthSnapshot>;
+  private options: HealthMonitorOptions;
+
+  constructor(
+    private client: UIScoutClient,
+    options: Partial<HealthMonitorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get current(): HealthSnapshot {
+    return { ...this.snapshot };
+  }
+
+  // Return the cached state, probing only when it is unknown or stale
+  async check(force: boolean = false): Promise<HealthSnapshot> {
+    if (!force && this.isFresh()) {
+      return this.current;
+    }
+    // Share one in-flight probe between concurrent tool calls
+    if (!this.pending) {
+      this.pending = this.probe().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  // Throw a clear MCP error when the service is known to be down
+  async ensureAvailable(): Promise<void> {
+    const health = await this.check();
+    if (health.state === 'down') {
+      throw new McpError(
+        UIScoutErrorCode.ServiceUnavailable,
+        `UIScout service is not available (${health.reason}). Please ensure the UIScout HTTP service is running.`,
+        { state: health.state, reason: health.reason, checkedAt: health.checkedAt }
+      );
+    }
+  }
+
+  // Feed back the outcome of a real request
+  recordSuccess(): void {
+    if (this.snapshot.state !== 'degraded') {
+      this.update('connected');
+    }
+  }
+
+  recordFailure(error: unknown): void {
+    if (!(error instanceof UIScoutClientError)) {
+      return;
+    }
+    // A slow call says less about the service than a refused connection
+    if (error.kind === 'timeout') {
+      this.update('degraded', error.message);
+    } else if (error.kind === 'network') {
+      this.update('down', error.message);
+    }
+  }
+
+  private isFresh(): boolean {
+    return this.snapshot.checkedAt !== undefined
+      && Date.now() - this.snapshot.checkedAt < this.options.ttlMs;
+  }
+
+  private async probe(): Promise<HealthSnapshot> {
+    const startedAt = Date.now();
+    try {
+      const health = await this.client.getHealth(this.options.timeoutMs);
+      const latencyMs = Date.now() - startedAt;
+
+      if (health.status !== 'ok') {
+        this.update('degraded', `health status is "${health.status}"`, latencyMs);
+      } else if (latencyMs > this.options.slowMs) {
+        this.update('degraded', `health check took ${latencyMs}ms`, latencyMs);
+      } else {
+        this.update('connected', undefined, latencyMs);
+      }
+    } catch (error) {
+      if (error instanceof UIScoutClientError && error.kind === 'http') {
+        this.update('degraded', `health check returned HTTP ${error.statusCode}`, Date.now() - startedAt);
+      } else {
+        this.update('down', error instanceof Error ? error.message : String(error));
+      }
+    }
+    return this.current;
+  }
+
+  private update(state: ConnectionState, reason?: string, latencyMs?: number): void {
+    this.snapshot = { state, reason, latencyMs, checkedAt: Date.now() };
+  }
+}
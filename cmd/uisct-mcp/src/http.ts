@@ -0,0 +1,222 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { withDefaults } from './options.js';
+import { createSharedServices, SharedServices, UIScoutMCPServer, UIScoutMCPServerOptions } from './server.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  // 0 picks a free port
+  port: number;
+  path: string;
+  // Clients must send "Authorization: Bearer <token>" when set
+  token?: string;
+  maxSessions: number;
+  // Sessions without requests for this long are closed, for hosts that go
+  // away without deleting their session
+  idleTimeoutMs: number;
+}
+
+// Clear of the UIScout service's 8080
+export const DEFAULT_HTTP_OPTIONS: HttpTransportOptions = {
+  host: '127.0.0.1',
+  port: 3848,
+  path: '/mcp',
+  maxSessions: 32,
+  idleTimeoutMs: 30 * 60 * 1000,
+};
+
+interface Session {
+  server: UIScoutMCPServer;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  // Requests still being answered, including open event streams
+  openRequests: number;
+}
+
+// The HTTP transport can't be started safely with these options
+export class HttpTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpTransportError';
+  }
+}
+
+// Serves MCP over streamable HTTP so several agents can share one running
+// wrapper. Each MCP session gets its own UIScoutMCPServer, so handles and
+// observations stay private to it; backends, policies and the audit log are
+// shared.
+export class UIScoutHttpServer {
+  private http: NodeHttpServer;
+  private shared: SharedServices;
+  private sessions = new Map<string, Session>();
+  private options: HttpTransportOptions;
+  private idleSweep?: NodeJS.Timeout;
+
+  constructor(
+    private serverOptions: UIScoutMCPServerOptions = {},
+    options: Partial<HttpTransportOptions> = {}
+  ) {
+    this.options = withDefaults(DEFAULT_HTTP_OPTIONS, options);
+    // Beyond loopback there is no DNS-rebinding protection either, so the token is the only guard
+    if (!isLoopback(this.options.host) && this.options.token === undefined) {
+      throw new HttpTransportError(
+        `Refusing to serve MCP on ${this.options.host} without authentication; set mcp.http.token (or UISCOUT_MCP_TOKEN) or listen on 127.0.0.1`
+      );
+    }
+    this.shared = createSharedServices(serverOptions);
+    this.http = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[MCP HTTP Error]', error);
+        if (!res.headersSent) {
+          sendError(res, 500, ErrorCode.InternalError, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  // Resolves with the URL of the MCP endpoint once the port is bound
+  listen(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.http.once('error', reject);
+      this.http.listen(this.options.port, this.options.host, () => {
+        this.http.off('error', reject);
+        const { port } = this.http.address() as AddressInfo;
+        const host = this.options.host.includes(':') ? `[${this.options.host}]` : this.options.host;
+        this.idleSweep = setInterval(() => this.closeIdleSessions(), Math.min(this.options.idleTimeoutMs / 2, 60_000));
+        this.idleSweep.unref();
+        resolve(`http://${host}:${port}${this.options.path}`);
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.idleSweep);
+    await Promise.all([...this.sessions.values()].map(({ server }) => server.close()));
+    this.sessions.clear();
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+    this.http.closeAllConnections();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== this.options.path) {
+      sendError(res, 404, ErrorCode.InvalidRequest, `Not found; the MCP endpoint is ${this.options.path}`);
+      return;
+    }
+
+    if (!this.authorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="uisct-mcp"');
+      sendError(res, 401, ErrorCode.InvalidRequest, 'Missing or invalid bearer token');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, ErrorCode.InvalidRequest, 'Session not found; initialize a new session');
+        return;
+      }
+      await this.track(session, res, () => session.transport.handleRequest(req, res));
+      return;
+    }
+
+    // Only an initialize request may start a session; the transport rejects anything else
+    if (req.method !== 'POST') {
+      sendError(res, 400, ErrorCode.InvalidRequest, 'Mcp-Session-Id header is required');
+      return;
+    }
+    if (this.sessions.size >= this.options.maxSessions) {
+      sendError(res, 503, ErrorCode.InvalidRequest, `Too many sessions (${this.options.maxSessions}); close one first`);
+      return;
+    }
+    await this.startSession(req, res);
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const server = new UIScoutMCPServer(this.serverOptions, this.shared);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport, lastActivity: Date.now(), openRequests: 0 });
+      },
+      // Guard local servers against DNS rebinding from web pages
+      ...(isLoopback(this.options.host) && {
+        enableDnsRebindingProtection: true,
+        allowedHosts: loopbackHosts(this.http),
+      }),
+    });
+    // Ends the session's observations when the client deletes the session
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+      void server.close();
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+
+    // The request was not a valid initialize, so no session was created
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  // Count a request as activity for as long as its response is open
+  private async track(session: Session, res: ServerResponse, handle: () => Promise<void>): Promise<void> {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+    await handle();
+  }
+
+  // Close sessions whose host stopped sending requests; closing the transport
+  // stops the session's observations and frees its slot
+  private closeIdleSessions(now: number = Date.now()): void {
+    for (const session of this.sessions.values()) {
+      if (session.openRequests === 0 && now - session.lastActivity >= this.options.idleTimeoutMs) {
+        void session.transport.close();
+      }
+    }
+  }
+
+  private authorized(req: IncomingMessage): boolean {
+    if (this.options.token === undefined) {
+      return true;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return false;
+    }
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.options.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+function loopbackHosts(http: NodeHttpServer): string[] {
+  const { port } = http.address() as AddressInfo;
+  return ['127.0.0.1', 'localhost', '[::1]'].map((host) => `${host}:${port}`);
+}
@@ -1,144 +1,106 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ErrorCode,
-  ListToolsRequestSchema,
-  McpError,
-} from '@modelcontextprotocol/sdk/types.js';
-import { UIScoutClient } from './client.js';
-import { UIScoutTools } from './tools.js';
 import { program } from 'commander';
-
-// Parse command line arguments
+import {
+  ConfigError,
+  httpOptionsFromConfig,
+  loadConfig,
+  readJsonFile,
+  serverOptionsFromConfig,
+  serviceUrlFrom,
+  serviceUrlOf,
+} from './config.js';
+import { AppAccessPolicy } from './access.js';
+import { HttpTransportError, UIScoutHttpServer } from './http.js';
+import { loadPromptDirectory, PromptFileError } from './prompts.js';
+import { UIScoutMCPServer } from './server.js';
+
+// Parse command line arguments. Flags have no defaults here: they override
+// the layered configuration only when given.
 program
   .name('uisct-mcp')
   .description('MCP tool wrapper for UIScout')
   .version('1.0.0')
-  .option('-p, --port <port>', 'UIScout service port', '8080')
-  .option('-h, --host <host>', 'UIScout service host', '127.0.0.1')
+  .option('-c, --config <file>', 'Config file (same layout as config/ui-scout.json), applied over ~/.config/ui-scout/config.json')
+  .option('-p, --port <port>', 'UIScout service port; with --host, replaces mcp.service_url (default: 8080)')
+  .option('-h, --host <host>', 'UIScout service host; with --port, replaces mcp.service_url (default: 127.0.0.1)')
+  .option('--backends <file>', 'JSON file listing named UIScout backends and app routing rules (overrides --host/--port)')
+  .option('--retries <count>', 'Retries for idempotent requests when the service is unavailable (default: 2)')
+  .option('--handle-ttl <minutes>', 'Minutes an unused signature handle stays valid (default: 30)')
+  .option('--transport <transport>', 'MCP transport: stdio, or http to serve several hosts from one process (default: stdio)')
+  .option('--http-host <host>', 'Address the HTTP transport listens on (default: 127.0.0.1; other addresses need a token)')
+  .option('--http-port <port>', 'Port the HTTP transport listens on (default: 3848)')
+  .option('--prompts <dir>', 'Directory of extra prompt files (default: ~/.config/ui-scout/prompts)')
   .option('--debug', 'Enable debug logging')
   .parse();
 
 const options = program.opts();
 
-class UIScoutMCPServer {
-  private server: Server;
-  private client: UIScoutClient;
-  private tools: UIScoutTools;
-
-  constructor() {
-    this.server = new Server(
-      {
-        name: 'ui-scout',
-        version: '1.0.0',
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    const serviceUrl = `http://${options.host}:${options.port}`;
-    this.client = new UIScoutClient(serviceUrl);
-    this.tools = new UIScoutTools(this.client);
-
-    this.setupErrorHandling();
-    this.setupHandlers();
-  }
+function flagLayer(): Record<string, any> {
+  const number = (value?: string) => (value !== undefined ? Number(value) : undefined);
+  return {
+    logging: { level: options.debug ? 'debug' : undefined },
+    mcp: {
+      service_url: serviceUrlFrom(options.host, options.port),
+      transport: options.transport,
+      prompts_dir: options.prompts,
+      http: { host: options.httpHost, port: number(options.httpPort) },
+      retries: number(options.retries),
+      handle_ttl_minutes: number(options.handleTtl),
+      backends: options.backends !== undefined ? readJsonFile(options.backends) : undefined,
+    },
+  };
+}
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      console.error('[MCP Server Error]', error);
-    };
+// Main execution
+async function main(): Promise<void> {
+  try {
+    const config = loadConfig({ configFile: options.config, flags: flagLayer() });
+    const serverOptions = { ...serverOptionsFromConfig(config), prompts: loadPromptDirectory(config.mcp.prompts_dir) };
+    const server = config.mcp.transport === 'http'
+      ? new UIScoutHttpServer(serverOptions, httpOptionsFromConfig(config))
+      : new UIScoutMCPServer(serverOptions);
 
     process.on('SIGINT', async () => {
-      console.log('Shutting down UIScout MCP server...');
-      await this.server.close();
+      console.error('Shutting down UIScout MCP server...');
+      await server.close();
       process.exit(0);
     });
-  }
-
-  private setupHandlers(): void {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const toolDefinitions = this.tools.getToolDefinitions();
-      return {
-        tools: toolDefinitions,
-      };
-    });
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        // Check if UIScout service is available
-        const isAvailable = await this.client.checkHealth();
-        if (!isAvailable) {
-          throw new McpError(
-            ErrorCode.InternalError,
-            'UIScout service is not available. Please ensure the UIScout HTTP service is running.'
-          );
-        }
-
-        // Execute the tool
-        const result = await this.tools.executeTool(name, args || {});
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
-
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        
-        if (options.debug) {
-          console.error('[Tool Execution Error]', error);
-        }
-
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${errorMessage}`
-        );
-      }
-    });
-  }
 
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    
     console.error('UIScout MCP Server starting...');
-    console.error(`Connecting to UIScout service at http://${options.host}:${options.port}`);
-    
-    await this.server.connect(transport);
-    console.error('UIScout MCP Server started successfully');
-  }
-}
-
-// Main execution
-async function main(): Promise<void> {
-  try {
-    const server = new UIScoutMCPServer();
-    await server.run();
+    for (const warning of new AppAccessPolicy(serverOptions.access).warnings) {
+      console.error(`Warning: ${warning}`);
+    }
+    if (serverOptions.prompts.length > 0) {
+      console.error(`Loaded ${serverOptions.prompts.length} prompts from ${config.mcp.prompts_dir}`);
+    }
+    if (serverOptions.backends) {
+      for (const [name, { url }] of Object.entries(serverOptions.backends.backends)) {
+        console.error(`Using UIScout backend "${name}" at ${url}`);
+      }
+    } else {
+      console.error(`Connecting to UIScout service at ${serviceUrlOf(config)}`);
+    }
+
+    if (server instanceof UIScoutHttpServer) {
+      const url = await server.listen();
+      const auth = config.mcp.http.token ? 'bearer token required' : 'no authentication';
+      console.error(`UIScout MCP Server listening on ${url} (${auth})`);
+    } else {
+      await server.run();
+      console.error('UIScout MCP Server started successfully');
+    }
   } catch (error) {
-    console.error('Failed to start UIScout MCP server:', error);
+    if (error instanceof ConfigError || error instanceof PromptFileError || error instanceof HttpTransportError) {
+      console.error(`Failed to start UIScout MCP server: ${error.message}`);
+    } else {
+      console.error('Failed to start UIScout MCP server:', error);
+    }
     process.exit(1);
   }
 }
 
-// Only run if this is the main module
-if (require.main === module) {
-  main().catch((error) => {
-    console.error('Unhandled error:', error);
-    process.exit(1);
-  });
-}
+main().catch((error) => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
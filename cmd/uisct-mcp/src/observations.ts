@@ -0,0 +1,199 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ElementSignature, Policy, UIScoutClient } from './client.js';
+
+export const OBSERVATION_ID_PATTERN = /^obs_\d+$/;
+
+export type ObservationStatus = 'running' | 'completed' | 'stopped' | 'failed';
+
+export interface ObservedEvent {
+  // Position in the session's event sequence; poll with cursor = seq + 1
+  seq: number;
+  timestamp: string;
+  notification: string;
+  timeOffset: number;
+}
+
+export interface ObservationSession {
+  id: string;
+  appBundleId: string;
+  signature: ElementSignature;
+  durationSeconds: number;
+  status: ObservationStatus;
+  error?: string;
+  startedAt: number;
+  endedAt?: number;
+  lastPolledAt: number;
+  events: ObservedEvent[];
+  nextSeq: number;
+  // Malformed events the stream skipped
+  skippedEvents: number;
+  controller: AbortController;
+}
+
+export interface ObservationPoll {
+  session: ObservationSession;
+  events: ObservedEvent[];
+  cursor: number;
+  // Events that fell out of the buffer before they were polled
+  dropped: number;
+}
+
+export interface ObservationManagerOptions {
+  maxSessions: number;
+  maxEventsPerSession: number;
+  // Sessions not polled for this long are stopped and forgotten
+  idleExpiryMs: number;
+}
+
+const DEFAULT_OPTIONS: ObservationManagerOptions = {
+  maxSessions: 8,
+  maxEventsPerSession: 1000,
+  idleExpiryMs: 10 * 60 * 1000,
+};
+
+// Runs client.observeElement streams in the background so an agent can keep
+// working and poll for new events. Each session keeps a bounded buffer of
+// its most recent events.
+export class ObservationManager {
+  private sessions = new Map<string, ObservationSession>();
+  private nextId = 1;
+  private options: ObservationManagerOptions;
+
+  constructor(options: Partial<ObservationManagerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(
+    client: UIScoutClient,
+    appBundleId: string,
+    signature: ElementSignature,
+    durationSeconds: number,
+    policy?: Partial<Policy>
+  ): ObservationSession {
+    this.evictExpired();
+
+    const running = this.list().filter((session) => session.status === 'running').length;
+    if (running >= this.options.maxSessions) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Too many running observations (${running}/${this.options.maxSessions}); stop one with stopObservation first`
+      );
+    }
+
+    const now = Date.now();
+    const session: ObservationSession = {
+      id: `obs_${this.nextId++}`,
+      appBundleId,
+      signature,
+      durationSeconds,
+      status: 'running',
+      startedAt: now,
+      lastPolledAt: now,
+      events: [],
+      nextSeq: 0,
+      skippedEvents: 0,
+      controller: new AbortController(),
+    };
+    this.sessions.set(session.id, session);
+
+    void this.run(client, session, policy);
+    return session;
+  }
+
+  // Return events with seq >= cursor (at most limit of them)
+  poll(id: string, cursor: number = 0, limit: number = 100): ObservationPoll | undefined {
+    this.evictExpired();
+
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    session.lastPolledAt = Date.now();
+
+    const oldest = session.events[0]?.seq ?? session.nextSeq;
+    const events = session.events.filter((event) => event.seq >= cursor).slice(0, limit);
+    const next = events.length > 0 ? events[events.length - 1].seq + 1 : Math.max(cursor, oldest);
+
+    return {
+      session,
+      events,
+      cursor: next,
+      dropped: Math.max(0, oldest - cursor),
+    };
+  }
+
+  stop(id: string): ObservationSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    if (session.status === 'running') {
+      this.finish(session, 'stopped');
+      session.controller.abort();
+    }
+    return session;
+  }
+
+  stopAll(): void {
+    for (const session of this.sessions.values()) {
+      this.stop(session.id);
+    }
+  }
+
+  list(): ObservationSession[] {
+    return [...this.sessions.values()];
+  }
+
+  private async run(client: UIScoutClient, session: ObservationSession, policy?: Partial<Policy>): Promise<void> {
+    try {
+      for await (const event of client.observeElement(
+        session.appBundleId,
+        session.signature,
+        session.durationSeconds,
+        policy,
+        session.controller.signal,
+        () => session.skippedEvents++
+      )) {
+        if (event.type === 'complete') {
+          break;
+        }
+        this.record(session, {
+          seq: session.nextSeq++,
+          timestamp: new Date(event.timestamp * 1000).toISOString(),
+          notification: event.notification,
+          timeOffset: Math.round((event.timestamp * 1000 - session.startedAt) / 100) / 10, // seconds
+        });
+      }
+      this.finish(session, 'completed');
+    } catch (error) {
+      this.finish(session, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private record(session: ObservationSession, event: ObservedEvent): void {
+    session.events.push(event);
+    if (session.events.length > this.options.maxEventsPerSession) {
+      session.events.shift();
+    }
+  }
+
+  // The first outcome wins: a stopped session stays stopped when its stream then errors out
+  private finish(session: ObservationSession, status: ObservationStatus, error?: string): void {
+    if (session.status !== 'running') {
+      return;
+    }
+    session.status = status;
+    session.error = error;
+    session.endedAt = Date.now();
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.options.idleExpiryMs;
+    for (const session of this.sessions.values()) {
+      if (session.lastPolledAt < cutoff) {
+        this.stop(session.id);
+        this.sessions.delete(session.id);
+      }
+    }
+  }
+}
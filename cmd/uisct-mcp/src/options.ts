@@ -0,0 +1,6 @@
+// Options over their defaults, where an option set to undefined (e.g. an
+// unset config value) keeps the default instead of replacing it
+export function withDefaults<T extends object>(defaults: T, options: Partial<T>): T {
+  const set = Object.entries(options).filter(([, value]) => value !== undefined);
+  return { ...defaults, ...Object.fromEntries(set) };
+}
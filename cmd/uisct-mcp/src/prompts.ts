@@ -0,0 +1,209 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { DEFAULT_MIN_CONFIDENCE, ELEMENT_TYPES, ElementTypeSchema } from './client.js';
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// A prompt as written in a prompt file; built-in prompts use the same shape
+export const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  title: z.string().min(1).optional(),
+  description: z.string().min(1),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^\w+$/),
+    description: z.string().min(1).optional(),
+    required: z.boolean().default(false),
+    // Used when an optional argument is not given
+    default: z.string().optional(),
+  }).strict()).default([]),
+  // Text with {{argument}} placeholders; an array is joined with newlines
+  template: z.union([z.string().min(1), z.array(z.string()).min(1).transform((lines) => lines.join('\n'))]),
+}).strict().superRefine((prompt, ctx) => {
+  const declared = new Set(prompt.arguments.map((arg) => arg.name));
+  for (const [, name] of prompt.template.matchAll(PLACEHOLDER)) {
+    if (!declared.has(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['template'], message: `{{${name}}} is not a declared argument` });
+    }
+  }
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+// Arguments that end up inside tool arguments in the prompt text are checked
+// against the tool schemas; prompt arguments always arrive as strings
+const ARGUMENT_SCHEMAS: Record<string, z.ZodType<string | number>> = {
+  elementType: ElementTypeSchema,
+  minConfidence: z.coerce.number().min(0).max(1),
+};
+
+export class PromptFileError extends Error {
+  constructor(
+    message: string,
+    public file: string
+  ) {
+    super(message);
+    this.name = 'PromptFileError';
+  }
+}
+
+// Workflows that otherwise have to be rediscovered by every agent. Each step
+// names the tool to call and the Policy fields worth setting.
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'chat-with-app',
+    title: 'Chat with an app',
+    description: 'Send a message to a chat app and read its reply',
+    arguments: [
+      { name: 'appBundleId', description: 'Bundle identifier of the chat app, e.g. com.raycast.macos', required: true },
+      { name: 'message', description: 'The message to send', required: true },
+      { name: 'minConfidence', description: `Minimum detection confidence (default: ${DEFAULT_MIN_CONFIDENCE})`, required: false, default: String(DEFAULT_MIN_CONFIDENCE) },
+    ],
+    template: [
+      'Send the message below to the app {{appBundleId}} with the UIScout tools and report its reply.',
+      '',
+      'Message: {{message}}',
+      '',
+      'Steps:',
+      '1. Call getStatus. If canOperate is false, stop and list the missing permissions.',
+      '2. Call askApp with appBundleId "{{appBundleId}}", text set to the message and policy {"minConfidence": {{minConfidence}}}.',
+      '3. If askApp returns partial: true, look at failedStage:',
+      '   - findInput or findReply: call findElement for that element type with policy {"allowPeek": true, "minConfidence": {{minConfidence}}} and retry with the returned handle in mind.',
+      '   - afterSendDiff: call afterSendDiff with the reply handle as preSignature to locate the reply.',
+      '   - waitForReply: call waitForReplyComplete with the reply handle and a longer timeoutSeconds.',
+      '4. Quote the reply text, and mention the confidence of each stage if any was below {{minConfidence}}.',
+    ].join('\n'),
+  },
+  {
+    name: 'diagnose-element',
+    title: 'Diagnose element detection',
+    description: 'Work out why an element type cannot be found in an app',
+    arguments: [
+      { name: 'appBundleId', description: 'Bundle identifier of the app', required: true },
+      { name: 'elementType', description: `Element type that cannot be found (${ELEMENT_TYPES.join(', ')})`, required: true },
+    ],
+    template: [
+      'Find out why UIScout cannot find the {{elementType}} element in {{appBundleId}}.',
+      '',
+      '1. Call getStatus and check permissions: without accessibility nothing can be found, and without screenRecording OCR-based detection is unavailable.',
+      '2. Call listSignatures with appBundleId "{{appBundleId}}" and elementType "{{elementType}}". Note the stability and lastVerified time of each stored signature.',
+      '3. Call findElement with policy {"allowPeek": false} and then with {"allowPeek": true, "maxPeekMs": 500}. Compare the confidence and detection method of the two results; a large difference means the app needs to be frontmost.',
+      '4. If confidence stays low, call compareSignatures with the most stable stored signature as baseline and no current signature. It diffs the stored signature against a fresh match and ranks the differences that most likely broke detection.',
+      '5. Call captureSnapshot on the best candidate to confirm it is the right element.',
+      '6. Summarize the most likely cause (permissions, app not frontmost, UI changed since the signature was learned, or the element is not on screen) and what to do next. Only call learnSignature if the user agrees the new candidate is correct.',
+    ].join('\n'),
+  },
+  {
+    name: 'grant-permissions',
+    title: 'Grant permissions',
+    description: 'Walk the user through granting the macOS permissions UIScout needs',
+    arguments: [],
+    template: [
+      'Help the user grant the macOS permissions the UIScout service needs.',
+      '',
+      '1. Call getStatus and read permissions.needsPrompt and environment.',
+      '2. For each missing permission, explain where to grant it:',
+      '   - accessibility: System Settings > Privacy & Security > Accessibility.',
+      '   - screenRecording: System Settings > Privacy & Security > Screen & System Audio Recording.',
+      '   The permission belongs to the process named in environment.description; when isInTerminal is true that is the terminal app, not UIScout itself.',
+      '3. Screen recording takes effect only after the service restarts; ask the user to restart it.',
+      '4. Call getStatus again and confirm canOperate is true, or report what is still missing.',
+    ].join('\n'),
+  },
+].map((prompt) => PromptTemplateSchema.parse(prompt));
+
+// Prompt definitions as advertised by prompts/list
+export function describePrompts(prompts: PromptTemplate[]): Prompt[] {
+  return prompts.map((prompt) => ({
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: prompt.arguments.map(({ name, description, required }) => ({ name, description, required })),
+  }));
+}
+
+export function renderPrompt(prompt: PromptTemplate, args: Record<string, string> = {}): GetPromptResult {
+  const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name]);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Prompt ${prompt.name} requires ${missing.map((arg) => arg.name).join(', ')}`,
+      { prompt: prompt.name, issues: missing.map((arg) => ({ field: arg.name, message: 'Required', code: 'invalid_type' })) }
+    );
+  }
+
+  const values = Object.fromEntries(prompt.arguments.map((arg) => [arg.name, args[arg.name] || arg.default || '']));
+  const issues: Array<{ field: string; message: string; code: string }> = [];
+  for (const [name, value] of Object.entries(values)) {
+    const schema = ARGUMENT_SCHEMAS[name];
+    if (!schema || value === '') {
+      continue;
+    }
+    const result = schema.safeParse(value);
+    if (result.success) {
+      // Written back so e.g. ".5" becomes valid JSON
+      values[name] = String(result.data);
+    } else {
+      issues.push(...result.error.issues.map((issue) => ({ field: name, message: issue.message, code: issue.code })));
+    }
+  }
+  if (issues.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for prompt ${prompt.name}: ${issues.map((issue) => `${issue.field}: ${issue.message}`).join('; ')}`,
+      { prompt: prompt.name, issues }
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text: prompt.template.replace(PLACEHOLDER, (_, name: string) => values[name]) },
+    }],
+  };
+}
+
+// Load every *.json prompt file in a directory; a missing directory has no
+// prompts. Later prompts replace earlier ones of the same name, so user
+// files can override the built-ins.
+export function loadPromptDirectory(dir: string): PromptTemplate[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const prompts: PromptTemplate[] = [];
+  const seen = new Map<string, string>();
+  for (const name of readdirSync(dir).filter((entry) => entry.endsWith('.json')).sort()) {
+    const file = path.join(dir, name);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new PromptFileError(`Prompt file ${file} is not valid JSON: ${error instanceof Error ? error.message : error}`, file);
+    }
+
+    const result = PromptTemplateSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new PromptFileError(`Invalid prompt file ${file}: ${issues.join('; ')}`, file);
+    }
+
+    const previous = seen.get(result.data.name);
+    if (previous) {
+      throw new PromptFileError(`Prompt file ${file} reuses the name "${result.data.name}" of ${previous}`, file);
+    }
+    seen.set(result.data.name, file);
+    prompts.push(result.data);
+  }
+  return prompts;
+}
+
+export function mergePrompts(...sets: PromptTemplate[][]): PromptTemplate[] {
+  const byName = new Map<string, PromptTemplate>();
+  for (const prompt of sets.flat()) {
+    byName.set(prompt.name, prompt);
+  }
+  return [...byName.values()];
+}
@@ -0,0 +1,194 @@
+import { ErrorCode, McpError, ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ELEMENT_TYPES, ElementType, ElementTypeSchema } from './client.js';
+import { AppAccessPolicy } from './access.js';
+import { AuditLog } from './audit.js';
+import { BackendRouter } from './backends.js';
+import { UIScoutErrorCode } from './errors.js';
+
+export const STATUS_URI = 'uiscout://status';
+const SIGNATURES_PREFIX = 'uiscout://signatures/';
+
+// Defined by the MCP spec for resources/read of an unknown URI
+export const RESOURCE_NOT_FOUND = -32002;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${SIGNATURES_PREFIX}{appBundleId}`,
+    name: 'app-signatures',
+    title: 'Signatures for an app',
+    description: 'Every stored element signature for an application',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${SIGNATURES_PREFIX}{appBundleId}/{elementType}`,
+    name: 'element-signatures',
+    title: 'Signatures for an element type',
+    description: `Stored signatures for one element type (${ELEMENT_TYPES.join(', ')}) of an application`,
+    mimeType: 'application/json',
+  },
+];
+
+export interface SignatureChange {
+  appBundleId: string;
+  elementType: ElementType;
+}
+
+// Tells every session when a tool call changed the signature store
+export class SignatureChangeFeed {
+  private listeners = new Set<(change: SignatureChange) => void>();
+
+  subscribe(listener: (change: SignatureChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  publish(change: SignatureChange): void {
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+}
+
+export function signaturesUri(appBundleId: string, elementType?: ElementType): string {
+  const uri = `${SIGNATURES_PREFIX}${encodeURIComponent(appBundleId)}`;
+  return elementType ? `${uri}/${elementType}` : uri;
+}
+
+// The resources whose contents a store change affects
+export function urisAffectedBy(change: SignatureChange): string[] {
+  return [STATUS_URI, signaturesUri(change.appBundleId), signaturesUri(change.appBundleId, change.elementType)];
+}
+
+// Read-only views of the service status and signature store. Apps excluded
+// by the security lists are neither listed nor readable.
+export class UIScoutResources {
+  // Apps in the last listing the client got; undefined until it lists
+  private listed?: Set<string>;
+
+  constructor(
+    private backends: BackendRouter,
+    // Reads the status the same way the getStatus tool does
+    private readStatus: (signal?: AbortSignal) => Promise<unknown>,
+    private access: AppAccessPolicy = new AppAccessPolicy(),
+    private audit: AuditLog = new AuditLog()
+  ) {}
+
+  // The status plus one resource per app with stored signatures; backends
+  // that can't be reached are left out rather than failing the listing
+  async list(signal?: AbortSignal): Promise<Resource[]> {
+    const resources: Resource[] = [{
+      uri: STATUS_URI,
+      name: 'status',
+      title: 'UIScout status',
+      description: 'Permissions, environment and signature store statistics of the UIScout service',
+      mimeType: 'application/json',
+    }];
+
+    const listed = new Set<string>();
+    for (const backend of this.backends.list()) {
+      let apps: string[];
+      try {
+        const { signatures } = await backend.client.listSignatures(undefined, undefined, signal);
+        apps = [...new Set(signatures.map((sig) => sig.appBundleId))];
+      } catch {
+        continue;
+      }
+      for (const app of apps.sort()) {
+        if (this.backends.route(undefined, app) !== backend || !this.access.check(app).allowed) {
+          continue;
+        }
+        listed.add(app);
+        resources.push({
+          uri: signaturesUri(app),
+          name: app,
+          title: `Signatures for ${app}`,
+          mimeType: 'application/json',
+        });
+      }
+    }
+    this.listed = listed;
+    return resources;
+  }
+
+  // Whether a store change for the app adds it to the listing the client
+  // has, i.e. the app just got its first signature. The app counts as listed
+  // from then on, so the client is told once.
+  addsToListing(appBundleId: string): boolean {
+    if (!this.listed || this.listed.has(appBundleId) || !this.access.check(appBundleId).allowed) {
+      return false;
+    }
+    this.listed.add(appBundleId);
+    return true;
+  }
+
+  async read(uri: string, signal?: AbortSignal): Promise<ReadResourceResult> {
+    if (uri === STATUS_URI) {
+      return json(uri, await this.readStatus(signal));
+    }
+
+    const target = parseSignaturesUri(uri);
+    const decision = this.access.check(target.appBundleId);
+    // Audited like the access checks of tool calls
+    if (this.access.restricted) {
+      this.audit.record({
+        time: new Date().toISOString(),
+        type: 'access',
+        tool: 'resources/read',
+        appBundleId: target.appBundleId,
+        decision: decision.allowed ? 'allow' : 'deny',
+        rule: decision.rule,
+        reason: decision.reason,
+      });
+    }
+    if (!decision.allowed) {
+      throw new McpError(
+        UIScoutErrorCode.AccessDenied,
+        `Access to ${target.appBundleId} is denied: it ${decision.reason}`,
+        { uri, appBundleId: target.appBundleId, rule: decision.rule }
+      );
+    }
+
+    const backend = this.backends.route(undefined, target.appBundleId);
+    const result = await backend.client.listSignatures(target.appBundleId, target.elementType, signal);
+    return json(uri, {
+      backend: backend.name,
+      appBundleId: target.appBundleId,
+      elementType: target.elementType,
+      count: result.count,
+      skipped: result.skipped,
+      signatures: result.signatures,
+    });
+  }
+}
+
+function parseSignaturesUri(uri: string): { appBundleId: string; elementType?: ElementType } {
+  const notFound = (reason: string) => new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri} (${reason})`, { uri });
+  if (!uri.startsWith(SIGNATURES_PREFIX)) {
+    throw notFound(`expected ${STATUS_URI} or ${SIGNATURES_PREFIX}{appBundleId}[/{elementType}]`);
+  }
+
+  const parts = uri.slice(SIGNATURES_PREFIX.length).split('/');
+  if (parts.length > 2 || parts[0] === '') {
+    throw notFound('expected an appBundleId and optionally an element type');
+  }
+
+  let appBundleId: string;
+  try {
+    appBundleId = decodeURIComponent(parts[0]);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`, { uri });
+  }
+  if (parts.length === 1) {
+    return { appBundleId };
+  }
+
+  const elementType = ElementTypeSchema.safeParse(parts[1]);
+  if (!elementType.success) {
+    throw notFound(`unknown element type "${parts[1]}"`);
+  }
+  return { appBundleId, elementType: elementType.data };
+}
+
+function json(uri: string, value: unknown): ReadResourceResult {
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] };
+}
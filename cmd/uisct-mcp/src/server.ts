@@ -0,0 +1,368 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutClient, UIScoutClientOptions } from './client.js';
+import { ToolContext, UIScoutTools } from './tools.js';
+import { SignatureRegistry } from './handles.js';
+import { Backend, BackendRouter, BackendsConfig } from './backends.js';
+import { ObservationManager } from './observations.js';
+import { toMcpError } from './errors.js';
+import { AppAccessOptions, AppAccessPolicy } from './access.js';
+import { AuditLog, AuditLogOptions, errorClassOf, redactArgs } from './audit.js';
+import { ApprovalChannel, ApprovalGate, ApprovalOptions } from './approval.js';
+import { BUILTIN_PROMPTS, describePrompts, mergePrompts, PromptTemplate, renderPrompt } from './prompts.js';
+import { RESOURCE_TEMPLATES, SignatureChange, SignatureChangeFeed, UIScoutResources, urisAffectedBy } from './resources.js';
+
+export interface UIScoutMCPServerOptions {
+  // Base URL of the UIScout HTTP service (ignored when a client is injected)
+  serviceUrl?: string;
+  clientOptions?: Partial<UIScoutClientOptions>;
+  client?: UIScoutClient;
+  // Several named services with per-app routing; replaces serviceUrl and client
+  backends?: BackendsConfig;
+  handleTtlMinutes?: number;
+  // App patterns tools may or may not touch (security.*_applications)
+  access?: Partial<AppAccessOptions>;
+  // JSONL audit log of tool calls and security decisions, with rotation
+  audit?: Partial<AuditLogOptions>;
+  // Which calls need the user's approval (security.require_user_approval)
+  approval?: Partial<ApprovalOptions>;
+  // Prompts from the user's prompt directory; they replace built-ins of the same name
+  prompts?: PromptTemplate[];
+  // Directory signature bundle files are written to and read from
+  bundlesDir?: string;
+  debug?: boolean;
+}
+
+// How long the user has to answer an approval request
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Where svc/http/main.swift listens
+export const DEFAULT_SERVICE_URL = 'http://127.0.0.1:8080';
+
+// What every MCP session of one process shares: the backend clients with
+// their health state, the security policies, the audit log and news of
+// signature store changes
+export interface SharedServices {
+  backends: BackendRouter;
+  access: AppAccessPolicy;
+  approvals: ApprovalGate;
+  audit: AuditLog;
+  signatureChanges: SignatureChangeFeed;
+}
+
+export function createSharedServices(options: UIScoutMCPServerOptions = {}): SharedServices {
+  let backends: BackendRouter;
+  if (options.backends) {
+    backends = BackendRouter.fromConfig(options.backends, options.clientOptions);
+  } else {
+    const serviceUrl = options.serviceUrl ?? DEFAULT_SERVICE_URL;
+    backends = BackendRouter.single(options.client ?? new UIScoutClient(serviceUrl, options.clientOptions), serviceUrl);
+  }
+  return {
+    backends,
+    access: new AppAccessPolicy(options.access),
+    approvals: new ApprovalGate(options.approval),
+    audit: new AuditLog(options.audit),
+    signatureChanges: new SignatureChangeFeed(),
+  };
+}
+
+// The MCP server for one session; constructing it has no side effects, so
+// tests can create it in-process with an injected client and connect any
+// transport. Handles and observations belong to the session.
+export class UIScoutMCPServer {
+  private server: Server;
+  private registry: SignatureRegistry;
+  private observations: ObservationManager;
+  private audit: AuditLog;
+  private tools: UIScoutTools;
+  private resources: UIScoutResources;
+  private prompts: PromptTemplate[];
+  // Resource URIs the client subscribed to
+  private subscriptions = new Set<string>();
+  private unsubscribeChanges: () => void;
+
+  constructor(
+    private options: UIScoutMCPServerOptions = {},
+    private shared: SharedServices = createSharedServices(options)
+  ) {
+    this.server = new Server(
+      {
+        name: 'ui-scout',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+          logging: {},
+        },
+      }
+    );
+
+    this.registry = new SignatureRegistry({ ttlMs: (options.handleTtlMinutes ?? 30) * 60 * 1000 });
+    this.observations = new ObservationManager();
+    this.audit = shared.audit;
+    this.tools = new UIScoutTools(
+      shared.backends,
+      this.registry,
+      this.observations,
+      shared.access,
+      this.audit,
+      shared.approvals,
+      options.bundlesDir
+    );
+    this.resources = new UIScoutResources(
+      shared.backends,
+      (signal) => this.tools.executeTool('getStatus', {}, { signal }),
+      shared.access,
+      this.audit
+    );
+    this.prompts = mergePrompts(BUILTIN_PROMPTS, options.prompts ?? []);
+    this.unsubscribeChanges = shared.signatureChanges.subscribe((change) => this.notifySignatureChange(change));
+
+    this.setupErrorHandling();
+    this.setupHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  private setupErrorHandling(): void {
+    this.server.onerror = (error) => {
+      console.error('[MCP Server Error]', error);
+    };
+  }
+
+  private setupHandlers(): void {
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const toolDefinitions = this.tools.getToolDefinitions();
+      return {
+        tools: toolDefinitions,
+      };
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      const context: ToolContext = {
+        // Cancelling the MCP request aborts the underlying HTTP call
+        signal: extra.signal,
+        // Progress notifications when the host asked for them, debug log
+        // messages otherwise (dropped below the level set with logging/setLevel)
+        progress: async ({ progress, total, message }) => {
+          if (progressToken !== undefined) {
+            await extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message },
+            });
+          } else {
+            await this.server.sendLoggingMessage({ level: 'debug', logger: name, data: message }, extra.sessionId);
+          }
+        },
+        approval: this.approvalChannel(extra.requestId, extra.signal),
+      };
+
+      const startedAt = Date.now();
+      let backend: Backend | undefined;
+      try {
+        // Unknown tools, blocked apps and unapproved calls fail the same way
+        // whether or not the service is up
+        await this.tools.admit(name, args || {}, context);
+
+        // Fail fast if the backend the call goes to is known to be down (probes
+        // only when the cached state is stale); local and multi-backend calls skip this
+        backend = this.tools.backendFor(name, args || {});
+        await backend?.health.ensureAvailable();
+
+        // Execute the tool
+        let result;
+        try {
+          result = await this.tools.runTool(name, args || {}, context);
+          backend?.health.recordSuccess();
+        } catch (error) {
+          backend?.health.recordFailure(error);
+          throw error;
+        }
+        this.recordCall(name, args || {}, extra.sessionId, startedAt, backend, result);
+        if (name === 'learnSignature' && result.success) {
+          this.shared.signatureChanges.publish({ appBundleId: result.appBundleId, elementType: result.elementType });
+        }
+        if (name === 'importSignatures') {
+          result.changed.forEach((change: SignatureChange) => this.shared.signatureChanges.publish(change));
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        if (this.options.debug) {
+          console.error('[Tool Execution Error]', error);
+        }
+
+        const mcpError = toMcpError(error, name);
+        this.recordCall(name, args || {}, extra.sessionId, startedAt, backend, undefined, mcpError);
+        throw mcpError;
+      }
+    });
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => ({
+      resources: await this.resources.list(extra.signal),
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      try {
+        return await this.resources.read(request.params.uri, extra.signal);
+      } catch (error) {
+        throw toMcpError(error, 'resources/read');
+      }
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: describePrompts(this.prompts),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const prompt = this.prompts.find((p) => p.name === request.params.name);
+      if (!prompt) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown prompt: ${request.params.name}; available prompts are ${this.prompts.map((p) => p.name).join(', ')}`
+        );
+      }
+      return renderPrompt(prompt, request.params.arguments);
+    });
+  }
+
+  // Tell the client which subscribed resources a learned signature changed;
+  // the listing changes only when the app had no signatures before
+  private notifySignatureChange(change: SignatureChange): void {
+    const notify = async () => {
+      for (const uri of urisAffectedBy(change)) {
+        if (this.subscriptions.has(uri)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+      if (this.resources.addsToListing(change.appBundleId)) {
+        await this.server.sendResourceListChanged();
+      }
+    };
+    notify().catch((error) => {
+      if (this.options.debug) {
+        console.error('[Resource Notification Error]', error);
+      }
+    });
+  }
+
+  private recordCall(
+    name: string,
+    args: Record<string, any>,
+    session: string | undefined,
+    startedAt: number,
+    backend: Backend | undefined,
+    result?: any,
+    error?: McpError
+  ): void {
+    // An import that failed to store some of its records did not succeed
+    const failedEntries = name === 'importSignatures' && typeof result?.failed === 'number' ? result.failed : 0;
+    this.audit.record({
+      time: new Date(startedAt).toISOString(),
+      type: 'call',
+      tool: name,
+      args: redactArgs(args),
+      session,
+      appBundleId: this.tools.routingApp(args),
+      backend: backend?.name,
+      // Tools report unconfident or unsuccessful outcomes in the result itself
+      success: !error && result?.success !== false && failedEntries === 0,
+      confidence: typeof result?.confidence === 'number' ? result.confidence : undefined,
+      latencyMs: Date.now() - startedAt,
+      errorClass: error ? errorClassOf(error.code) : undefined,
+      error: error?.message ?? (failedEntries > 0 ? `${failedEntries} of ${result.total} signatures failed to import` : undefined),
+    });
+  }
+
+  // Ask the user through the host, using whichever of elicitation and
+  // sampling the client declared
+  private approvalChannel(relatedRequestId: RequestId, signal: AbortSignal): ApprovalChannel {
+    const capabilities = this.server.getClientCapabilities();
+    const options = { relatedRequestId, signal, timeout: APPROVAL_TIMEOUT_MS };
+    const channel: ApprovalChannel = {};
+
+    if (capabilities?.elicitation) {
+      channel.elicit = async (message) => {
+        const result = await this.server.elicitInput({
+          message,
+          requestedSchema: { type: 'object', properties: {} },
+        }, options);
+        return result.action;
+      };
+    }
+    if (capabilities?.sampling) {
+      channel.sample = async (message) => {
+        const result = await this.server.createMessage({
+          messages: [{ role: 'user', content: { type: 'text', text: message } }],
+          systemPrompt: 'You relay tool approval requests to the user. Reply with APPROVE only if the user approves.',
+          maxTokens: 10,
+        }, options);
+        return result.content.type === 'text' ? result.content.text : '';
+      };
+    }
+    return channel;
+  }
+
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  async run(): Promise<void> {
+    await this.connect(new StdioServerTransport());
+  }
+
+  async close(): Promise<void> {
+    this.unsubscribeChanges();
+    this.observations.stopAll();
+    await this.server.close();
+  }
+}
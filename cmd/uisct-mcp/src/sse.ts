@@ -0,0 +1,150 @@
+// Incremental decoder for text/event-stream bodies, following the parsing
+// rules of the WHATWG server-sent events spec
+
+export interface SSEMessage {
+  // Event type; "message" when the server sent no event field
+  event: string;
+  data: string;
+  // Last event ID in effect when the message was dispatched ("" if none)
+  lastEventId: string;
+}
+
+// The stream ended in the middle of an event, so part of it was lost
+export class SSETruncatedError extends Error {
+  constructor(
+    message: string,
+    public lastEventId: string,
+    public pending: string
+  ) {
+    super(message);
+    this.name = 'SSETruncatedError';
+  }
+}
+
+export class SSEDecoder {
+  // Survives across messages and is what a reconnect sends as Last-Event-ID
+  lastEventId = '';
+  // Reconnection delay requested by the server, in milliseconds
+  retry?: number;
+  // Comment lines received; servers send these as heartbeats
+  comments = 0;
+
+  // Decodes UTF-8 across chunk boundaries and drops a leading BOM
+  private text = new TextDecoder('utf-8');
+  private buffer = '';
+  private eventType = '';
+  private data = '';
+  // Whether any field arrived since the last dispatch
+  private inEvent = false;
+
+  decode(chunk: Uint8Array | string): SSEMessage[] {
+    this.buffer += typeof chunk === 'string' ? chunk : this.text.decode(chunk, { stream: true });
+    return this.readLines(false);
+  }
+
+  // Call when the stream ends; throws if it stopped in the middle of an event
+  end(): void {
+    this.buffer += this.text.decode();
+    this.readLines(true);
+
+    if (this.buffer !== '' || this.inEvent) {
+      const pending = this.buffer;
+      this.buffer = '';
+      this.reset();
+      throw new SSETruncatedError('Event stream ended in the middle of an event', this.lastEventId, pending);
+    }
+  }
+
+  private readLines(final: boolean): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') {
+        continue;
+      }
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (ch === '\r' && i + 1 === this.buffer.length && !final) {
+        break;
+      }
+
+      const message = this.processLine(this.buffer.slice(start, i));
+      if (message) {
+        messages.push(message);
+      }
+      if (ch === '\r' && this.buffer[i + 1] === '\n') {
+        i++;
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  private processLine(line: string): SSEMessage | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      this.comments++;
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    this.inEvent = true;
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data += `${value}\n`;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+      // Other fields are ignored
+    }
+    return undefined;
+  }
+
+  private dispatch(): SSEMessage | undefined {
+    const message = this.data === ''
+      ? undefined
+      : { event: this.eventType || 'message', data: this.data.slice(0, -1), lastEventId: this.lastEventId };
+    this.reset();
+    return message;
+  }
+
+  private reset(): void {
+    this.eventType = '';
+    this.data = '';
+    this.inEvent = false;
+  }
+}
+
+// Yield the messages of an event stream; pass a decoder to read its
+// lastEventId and retry after the stream ends or fails
+export async function* readSSE(
+  stream: AsyncIterable<Uint8Array | string>,
+  decoder: SSEDecoder = new SSEDecoder()
+): AsyncGenerator<SSEMessage, void, unknown> {
+  for await (const chunk of stream) {
+    yield* decoder.decode(chunk);
+  }
+  decoder.end();
+}
@@ -1,265 +1,662 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { UIScoutClient, ElementType, Policy, ElementSignature } from './client.js';
+import { mkdir, readFile, realpath, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ErrorCode, McpError, Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  UIScoutClient,
+  Policy,
+  ElementSignature,
+  ElementSignatureSchema,
+  ElementSnapshot,
+  ElementType,
+  ElementTypeSchema,
+  ELEMENT_TYPES,
+  UIScoutClientError,
+} from './client.js';
+import { AppAccessPolicy } from './access.js';
+import { ApprovalChannel, ApprovalGate } from './approval.js';
+import { AuditLog } from './audit.js';
+import { SignatureBundleError } from './bundles.js';
+import { compareSignatures } from './drift.js';
+import { Backend, BackendRouter, DEFAULT_BACKEND_NAME } from './backends.js';
+import { toMcpError, UIScoutErrorCode } from './errors.js';
+import { HANDLE_PATTERN, SignatureRegistry } from './handles.js';
+import { waitForReplyComplete } from './completion.js';
+import { OBSERVATION_ID_PATTERN, ObservationManager, ObservationSession } from './observations.js';
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 
-// Input validation schemas
+// Shared policy input; defaults are applied by the client when it parses the policy
+const PolicyInputSchema = z.object({
+  allowPeek: z.boolean().optional().describe('Whether to allow brief app activation for better accuracy (default: true)'),
+  minConfidence: z.number().min(0).max(1).optional().describe('Minimum confidence threshold to accept result (default: 0.8)'),
+  maxPeekMs: z.number().positive().optional().describe('Maximum duration for app activation in milliseconds (default: 250)'),
+  rateLimitPeekSeconds: z.number().positive().optional().describe('Minimum time between app activations in seconds (default: 10)'),
+}).optional().describe('Detection policy configuration');
+
+const BackendInputSchema = z.string().optional().describe('Name of the UIScout backend to use (default: chosen by the routing rules for appBundleId)');
+
+// A signature argument can be a full signature, a session handle ("sig_3"), a
+// stored signature ID ("<appBundleId>-<elementType>", as returned by
+// learnSignature) or an app/type reference; handles are resolved from the
+// registry, IDs and references against the signature store
+const SignatureRefSchema = z.object({
+  appBundleId: z.string().describe('Application bundle identifier'),
+  elementType: ElementTypeSchema.describe('Type of UI element'),
+}).passthrough().describe('Use the most stable stored signature for this app and element type');
+
+const SignatureIdSchema = z.string().min(1).describe('Signature handle returned by another tool (e.g., "sig_3") or stored signature ID (e.g., "com.raycast.macos-reply")');
+
+const SIGNATURE_REF_KEYS = Object.keys(SignatureRefSchema.shape);
+
+function signatureInput(description: string) {
+  return z.union([ElementSignatureSchema, SignatureRefSchema, SignatureIdSchema])
+    .superRefine((value, ctx) => {
+      // An object with more than the reference keys is a (malformed) full
+      // signature; report its missing or invalid fields
+      if (typeof value === 'string' || !Object.keys(value).some((key) => !SIGNATURE_REF_KEYS.includes(key))) {
+        return;
+      }
+      const parsed = ElementSignatureSchema.safeParse(value);
+      if (!parsed.success) {
+        parsed.error.issues.forEach((issue) => ctx.addIssue(issue as z.IssueData));
+      }
+    })
+    .describe(description);
+}
+
+type SignatureInput = z.infer<ReturnType<typeof signatureInput>>;
+
+function isFullSignature(input: SignatureInput): input is ElementSignature {
+  return typeof input !== 'string' && 'role' in input;
+}
+
+// Input validation schemas (also the source of each tool's advertised inputSchema)
 const FindElementInputSchema = z.object({
-  appBundleId: z.string().describe('Application bundle identifier (e.g., "com.raycast.macos")'),
-  elementType: z.enum(['reply', 'input', 'session']).describe('Type of UI element to find'),
-  policy: z.object({
-    allowPeek: z.boolean().optional().describe('Whether to allow polite peek if needed'),
-    minConfidence: z.number().min(0).max(1).optional().describe('Minimum confidence threshold'),
-    maxPeekMs: z.number().positive().optional().describe('Maximum peek duration in milliseconds'),
-    rateLimitPeekSeconds: z.number().positive().optional().describe('Rate limit between peeks'),
-  }).optional().describe('Detection policy configuration'),
+  appBundleId: z.string().describe('Application bundle identifier (e.g., "com.raycast.macos", "com.microsoft.VSCode")'),
+  elementType: ElementTypeSchema.describe('Type of UI element: reply (LLM response area), input (message input field), session (conversation sidebar), send (send button)'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
 });
 
 const AfterSendDiffInputSchema = z.object({
   appBundleId: z.string().describe('Application bundle identifier'),
-  preSignature: z.any().describe('Element signature from before sending message'),
-  policy: z.object({
-    allowPeek: z.boolean().optional(),
-    minConfidence: z.number().min(0).max(1).optional(),
-    maxPeekMs: z.number().positive().optional(),
-    rateLimitPeekSeconds: z.number().positive().optional(),
-  }).optional().describe('Detection policy configuration'),
+  preSignature: signatureInput('Element signature captured before sending message'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
 });
 
 const ObserveElementInputSchema = z.object({
   appBundleId: z.string().describe('Application bundle identifier'),
-  signature: z.any().describe('Element signature to observe'),
-  durationSeconds: z.number().positive().max(300).describe('How long to observe (max 300 seconds)'),
-  policy: z.object({
-    allowPeek: z.boolean().optional(),
-    minConfidence: z.number().min(0).max(1).optional(),
-    maxPeekMs: z.number().positive().optional(),
-    rateLimitPeekSeconds: z.number().positive().optional(),
-  }).optional().describe('Detection policy configuration'),
+  signature: signatureInput('Element signature to monitor'),
+  durationSeconds: z.number().min(1).max(300).describe('How long to observe in seconds (max 300)'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
 });
 
 const CaptureSnapshotInputSchema = z.object({
   appBundleId: z.string().describe('Application bundle identifier'),
-  signature: z.any().describe('Element signature to snapshot'),
+  signature: signatureInput('Element signature to snapshot'),
+  backend: BackendInputSchema,
+});
+
+const SendMessageInputSchema = z.object({
+  appBundleId: z.string().describe('Application bundle identifier'),
+  text: z.string().min(1).describe('Message text to type into the input field'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
 });
 
 const LearnSignatureInputSchema = z.object({
-  signature: z.any().describe('Element signature to learn'),
-  pin: z.boolean().default(false).describe('Pin signature to prevent decay'),
-  decay: z.boolean().default(false).describe('Decay signature stability'),
+  signature: signatureInput('Element signature to learn'),
+  pin: z.boolean().default(false).describe('Pin signature to prevent automatic decay'),
+  decay: z.boolean().default(false).describe('Reduce signature stability score'),
+  backend: BackendInputSchema,
+});
+
+const GetStatusInputSchema = z.object({
+  backend: z.string().optional().describe('Name of the UIScout backend to report on (default: all backends)'),
 });
 
 const ListSignaturesInputSchema = z.object({
-  appBundleId: z.string().optional().describe('Filter by application bundle ID'),
-  elementType: z.enum(['reply', 'input', 'session']).optional().describe('Filter by element type'),
+  appBundleId: z.string().optional().describe('Filter signatures by application bundle ID'),
+  elementType: ElementTypeSchema.optional().describe('Filter signatures by element type'),
+  backend: BackendInputSchema,
+});
+
+const BundleFileSchema = z.string().min(1);
+
+const ExportSignaturesInputSchema = z.object({
+  appBundleId: z.string().optional().describe('Only export signatures of this application'),
+  elementType: ElementTypeSchema.optional().describe('Only export signatures of this element type'),
+  pinned: z.boolean().optional().describe('Pin state to record for every exported signature; the service does not report which signatures are pinned, so by default they are recorded as unpinned'),
+  file: BundleFileSchema.optional().describe('File in the bundle directory (mcp.bundles_dir) to write the bundle to (default: return the bundle in the result)'),
+  backend: BackendInputSchema,
+});
+
+const ImportSignaturesInputSchema = z.object({
+  file: BundleFileSchema.optional().describe('File in the bundle directory (mcp.bundles_dir) written by exportSignatures'),
+  bundle: z.record(z.any()).optional().describe('Bundle object as returned by exportSignatures; give either this or file'),
+  apps: z.array(z.string().min(1)).default([]).describe('Only import signatures of apps matching these bundle ID globs or app names (default: all)'),
+  elementTypes: z.array(ElementTypeSchema).min(1).optional().describe('Only import signatures of these element types (default: all)'),
+  strategy: z.enum(['skip', 'overwrite', 'keep-higher-stability']).default('skip')
+    .describe('What to do with signatures that are already stored: keep them, replace them, or replace them only when the bundle\'s is more stable'),
+  dryRun: z.boolean().default(false).describe('Report what would be imported without storing anything'),
+  backend: BackendInputSchema,
+});
+
+const CompareSignaturesInputSchema = z.object({
+  baseline: signatureInput('Signature to compare from, e.g. the stored one that matched before an app update'),
+  current: signatureInput('Signature to compare against (default: a fresh findElement result for the baseline\'s app and element type)').optional(),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
+});
+
+const ListHandlesInputSchema = z.object({});
+
+const ClearHandlesInputSchema = z.object({
+  handles: z.array(z.string().regex(HANDLE_PATTERN)).optional().describe('Handles to forget (default: all)'),
+});
+
+const WaitForReplyCompleteInputSchema = z.object({
+  appBundleId: z.string().describe('Application bundle identifier'),
+  signature: signatureInput('Signature of the reply element to watch'),
+  quietPeriodSeconds: z.number().min(0.1).max(60).default(2).describe('Declare the reply complete once it has not changed for this many seconds'),
+  timeoutSeconds: z.number().min(1).max(300).default(60).describe('Give up after this many seconds (max 300)'),
+  pollIntervalMs: z.number().int().min(100).max(10000).default(500).describe('How often to snapshot the reply between accessibility events, in milliseconds'),
+  requireChange: z.boolean().default(true).describe('Wait for the reply to change at least once before the quiet period counts'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
+});
+
+const AskAppInputSchema = z.object({
+  appBundleId: z.string().describe('Application bundle identifier of the chat app'),
+  text: z.string().min(1).describe('Message to send'),
+  quietPeriodSeconds: z.number().min(0.1).max(60).default(2).describe('Consider the reply complete once it has not changed for this many seconds'),
+  timeoutSeconds: z.number().min(1).max(300).default(60).describe('How long to wait for the reply in seconds (max 300)'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
+});
+
+const StartObservationInputSchema = z.object({
+  appBundleId: z.string().describe('Application bundle identifier'),
+  signature: signatureInput('Element signature to monitor'),
+  durationSeconds: z.number().min(1).max(3600).describe('How long to observe in seconds (max 3600)'),
+  policy: PolicyInputSchema,
+  backend: BackendInputSchema,
+});
+
+const ObservationIdSchema = z.string().regex(OBSERVATION_ID_PATTERN).describe('Observation session ID returned by startObservation (e.g., "obs_2")');
+
+const PollObservationInputSchema = z.object({
+  sessionId: ObservationIdSchema,
+  cursor: z.number().int().min(0).default(0).describe('Return events from this position on; pass the cursor from the previous poll'),
+  limit: z.number().int().min(1).max(500).default(100).describe('Maximum number of events to return'),
+});
+
+const StopObservationInputSchema = z.object({
+  sessionId: ObservationIdSchema,
+});
+
+const GetAuditLogInputSchema = z.object({
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of entries to return, newest first'),
+  type: z.enum(['call', 'access', 'approval']).optional().describe('Only tool calls, access checks or approval decisions'),
+  tool: z.string().optional().describe('Only entries for this tool'),
+  appBundleId: z.string().optional().describe('Only entries for this application'),
+  errorsOnly: z.boolean().default(false).describe('Only tool calls that failed'),
+  since: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this ISO timestamp'),
 });
 
+export interface ToolSpec {
+  name: string;
+  description: string;
+  input: z.AnyZodObject;
+}
+
+// Single source of truth for every tool: the zod schema validates calls and
+// is converted to the JSON Schema advertised to the model
+export const TOOL_SPECS: ToolSpec[] = [
+  {
+    name: 'findElement',
+    description: 'Find UI elements in macOS applications using intelligent heuristics and confidence scoring',
+    input: FindElementInputSchema,
+  },
+  {
+    name: 'afterSendDiff',
+    description: 'Detect changes in UI elements after sending a message, useful for confirming message delivery',
+    input: AfterSendDiffInputSchema,
+  },
+  {
+    name: 'observeElement',
+    description: 'Monitor UI element for changes over a specified duration, returning notable events',
+    input: ObserveElementInputSchema,
+  },
+  {
+    name: 'captureSnapshot',
+    description: 'Capture a diagnostic snapshot of a UI element for debugging or analysis',
+    input: CaptureSnapshotInputSchema,
+  },
+  {
+    name: 'sendMessage',
+    description: 'Type a message into the app\'s input field and send it, then check the reply area for changes',
+    input: SendMessageInputSchema,
+  },
+  {
+    name: 'learnSignature',
+    description: 'Store, pin, or decay an element signature for improved future recognition',
+    input: LearnSignatureInputSchema,
+  },
+  {
+    name: 'getStatus',
+    description: 'Get UIScout system status, permissions, and statistics',
+    input: GetStatusInputSchema,
+  },
+  {
+    name: 'listSignatures',
+    description: 'List stored element signatures, optionally filtered by app or element type',
+    input: ListSignaturesInputSchema,
+  },
+  {
+    name: 'exportSignatures',
+    description: 'Export stored element signatures as a versioned, checksummed bundle, to a file or in the result',
+    input: ExportSignaturesInputSchema,
+  },
+  {
+    name: 'importSignatures',
+    description: 'Import a signature bundle written by exportSignatures, with app and type filters, a conflict strategy and a dry-run report',
+    input: ImportSignaturesInputSchema,
+  },
+  {
+    name: 'compareSignatures',
+    description: 'Diff two element signatures field by field and rank which differences most likely make detection fail; without a second signature, compares against a fresh findElement result',
+    input: CompareSignaturesInputSchema,
+  },
+  {
+    name: 'listHandles',
+    description: 'List the signature handles (e.g., "sig_3") known to this session and what they refer to',
+    input: ListHandlesInputSchema,
+  },
+  {
+    name: 'clearHandles',
+    description: 'Forget some or all signature handles known to this session',
+    input: ClearHandlesInputSchema,
+  },
+  {
+    name: 'waitForReplyComplete',
+    description: 'Wait until a chat app\'s reply element stops changing, returning the final snapshot and a timeline of its growth',
+    input: WaitForReplyCompleteInputSchema,
+  },
+  {
+    name: 'askApp',
+    description: 'Send a message to a chat app and return its reply: finds the input and reply elements, sends, waits for the reply to finish and reads its text',
+    input: AskAppInputSchema,
+  },
+  {
+    name: 'startObservation',
+    description: 'Start monitoring a UI element in the background and return a session ID to poll for events',
+    input: StartObservationInputSchema,
+  },
+  {
+    name: 'pollObservation',
+    description: 'Return events recorded by a background observation since the given cursor, plus its status',
+    input: PollObservationInputSchema,
+  },
+  {
+    name: 'stopObservation',
+    description: 'Stop a background observation started with startObservation',
+    input: StopObservationInputSchema,
+  },
+  {
+    name: 'getAuditLog',
+    description: 'Query recent entries of the audit log: tool calls with redacted arguments, access checks and approval decisions',
+    input: GetAuditLogInputSchema,
+  },
+];
+
+export function toInputSchema(schema: z.AnyZodObject): Tool['inputSchema'] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return jsonSchema as Tool['inputSchema'];
+}
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+  code: string;
+}
+
+// Flatten zod issues into field-level errors. For union fields, report the
+// branch that matched the input's shape instead of every alternative.
+function collectIssues(issues: z.ZodIssue[]): FieldIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code === 'invalid_union') {
+      const candidates = issue.unionErrors
+        .map((error) => error.issues)
+        .filter((branch) => !branch.some((i) => i.path.length <= issue.path.length));
+      if (candidates.length > 0) {
+        candidates.sort((a, b) => a.length - b.length);
+        return collectIssues(candidates[0]);
+      }
+    }
+    return [{ field: issue.path.join('.') || '(root)', message: issue.message, code: issue.code }];
+  });
+}
+
+function parseInput<T extends z.ZodTypeAny>(tool: string, schema: T, args: Record<string, any>): z.infer<T> {
+  const result = schema.safeParse(args);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = collectIssues(result.error.issues);
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for ${tool}: ${issues.map((i) => `${i.field}: ${i.message}`).join('; ')}`,
+    { tool, issues }
+  );
+}
+
+function parseSignatureId(id: string): { appBundleId: string; elementType: ElementType } | null {
+  const separator = id.lastIndexOf('-');
+  if (separator <= 0) {
+    return null;
+  }
+  const elementType = ElementTypeSchema.safeParse(id.slice(separator + 1));
+  if (!elementType.success) {
+    return null;
+  }
+  return { appBundleId: id.slice(0, separator), elementType: elementType.data };
+}
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message: string;
+}
+
+// Per-call context supplied by the MCP server
+export interface ToolContext {
+  // Aborted when the MCP request is cancelled
+  signal?: AbortSignal;
+  // Report intermediate results of long-running tools to the host
+  progress?: (update: ProgressUpdate) => Promise<void>;
+  // Ways to ask the user to approve gated calls
+  approval?: ApprovalChannel;
+}
+
+// Tools that only touch this server's own state
+const LOCAL_TOOLS = ['listHandles', 'clearHandles', 'pollObservation', 'stopObservation', 'getAuditLog'];
+
+// ToolContext plus the backend the call was routed to
+interface CallContext extends ToolContext {
+  backend: Backend;
+}
+
+export interface AskAppStage {
+  stage: 'findInput' | 'findReply' | 'send' | 'afterSendDiff' | 'waitForReply';
+  ok: boolean;
+  confidence?: number;
+  durationMs: number;
+  detail: string;
+}
+
+const ASK_APP_STAGES = 5;
+
 export class UIScoutTools {
-  constructor(private client: UIScoutClient) {}
+  private backends: BackendRouter;
+
+  constructor(
+    backends: BackendRouter | UIScoutClient,
+    private registry: SignatureRegistry = new SignatureRegistry(),
+    private observations: ObservationManager = new ObservationManager(),
+    private access: AppAccessPolicy = new AppAccessPolicy(),
+    private audit: AuditLog = new AuditLog(),
+    private approvals: ApprovalGate = new ApprovalGate(),
+    // Where exportSignatures and importSignatures may write and read bundle
+    // files (mcp.bundles_dir); without it they only take inline bundles
+    private bundlesDir?: string
+  ) {
+    this.backends = backends instanceof BackendRouter ? backends : BackendRouter.single(backends, DEFAULT_BACKEND_NAME);
+  }
 
   getToolDefinitions(): Tool[] {
-    return [
-      {
-        name: 'findElement',
-        description: 'Find UI elements in macOS applications using intelligent heuristics and confidence scoring',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            appBundleId: {
-              type: 'string',
-              description: 'Application bundle identifier (e.g., "com.raycast.macos", "com.microsoft.VSCode")',
-            },
-            elementType: {
-              type: 'string',
-              enum: ['reply', 'input', 'session'],
-              description: 'Type of UI element: reply (LLM response area), input (message input field), session (conversation sidebar)',
-            },
-            policy: {
-              type: 'object',
-              properties: {
-                allowPeek: {
-                  type: 'boolean',
-                  description: 'Whether to allow brief app activation for better accuracy (default: true)',
-                },
-                minConfidence: {
-                  type: 'number',
-                  minimum: 0,
-                  maximum: 1,
-                  description: 'Minimum confidence threshold to accept result (default: 0.8)',
-                },
-                maxPeekMs: {
-                  type: 'number',
-                  description: 'Maximum duration for app activation in milliseconds (default: 250)',
-                },
-                rateLimitPeekSeconds: {
-                  type: 'number',
-                  description: 'Minimum time between app activations in seconds (default: 10)',
-                },
-              },
-              description: 'Detection policy configuration',
-            },
-          },
-          required: ['appBundleId', 'elementType'],
-        },
-      },
-      {
-        name: 'afterSendDiff',
-        description: 'Detect changes in UI elements after sending a message, useful for confirming message delivery',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            appBundleId: {
-              type: 'string',
-              description: 'Application bundle identifier',
-            },
-            preSignature: {
-              type: 'object',
-              description: 'Element signature captured before sending message',
-            },
-            policy: {
-              type: 'object',
-              properties: {
-                allowPeek: { type: 'boolean' },
-                minConfidence: { type: 'number', minimum: 0, maximum: 1 },
-                maxPeekMs: { type: 'number' },
-                rateLimitPeekSeconds: { type: 'number' },
-              },
-              description: 'Detection policy configuration',
-            },
-          },
-          required: ['appBundleId', 'preSignature'],
-        },
-      },
-      {
-        name: 'observeElement',
-        description: 'Monitor UI element for changes over a specified duration, returning notable events',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            appBundleId: {
-              type: 'string',
-              description: 'Application bundle identifier',
-            },
-            signature: {
-              type: 'object',
-              description: 'Element signature to monitor',
-            },
-            durationSeconds: {
-              type: 'number',
-              minimum: 1,
-              maximum: 300,
-              description: 'How long to observe in seconds (max 300)',
-            },
-            policy: {
-              type: 'object',
-              properties: {
-                allowPeek: { type: 'boolean' },
-                minConfidence: { type: 'number', minimum: 0, maximum: 1 },
-                maxPeekMs: { type: 'number' },
-                rateLimitPeekSeconds: { type: 'number' },
-              },
-              description: 'Detection policy configuration',
-            },
-          },
-          required: ['appBundleId', 'signature', 'durationSeconds'],
-        },
-      },
-      {
-        name: 'captureSnapshot',
-        description: 'Capture a diagnostic snapshot of a UI element for debugging or analysis',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            appBundleId: {
-              type: 'string',
-              description: 'Application bundle identifier',
-            },
-            signature: {
-              type: 'object',
-              description: 'Element signature to snapshot',
-            },
-          },
-          required: ['appBundleId', 'signature'],
-        },
-      },
-      {
-        name: 'learnSignature',
-        description: 'Store, pin, or decay an element signature for improved future recognition',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            signature: {
-              type: 'object',
-              description: 'Element signature to learn',
-            },
-            pin: {
-              type: 'boolean',
-              description: 'Pin signature to prevent automatic decay (default: false)',
-            },
-            decay: {
-              type: 'boolean',
-              description: 'Reduce signature stability score (default: false)',
-            },
-          },
-          required: ['signature'],
-        },
-      },
-      {
-        name: 'getStatus',
-        description: 'Get UIScout system status, permissions, and statistics',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'listSignatures',
-        description: 'List stored element signatures, optionally filtered by app or element type',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            appBundleId: {
-              type: 'string',
-              description: 'Filter signatures by application bundle ID',
-            },
-            elementType: {
-              type: 'string',
-              enum: ['reply', 'input', 'session'],
-              description: 'Filter signatures by element type',
-            },
-          },
-        },
-      },
-    ];
+    return TOOL_SPECS.map((spec) => ({
+      name: spec.name,
+      description: spec.description,
+      inputSchema: toInputSchema(spec.input),
+    }));
+  }
+
+  // The backend a call is routed to; undefined for calls that are handled
+  // locally or span every backend
+  backendFor(name: string, args: Record<string, any>): Backend | undefined {
+    if (LOCAL_TOOLS.includes(name) || this.aggregatesStatus(name, args)) {
+      return undefined;
+    }
+    return this.backends.route(typeof args.backend === 'string' ? args.backend : undefined, this.routingApp(args));
   }
 
-  async executeTool(name: string, args: Record<string, any>): Promise<any> {
+  async executeTool(name: string, args: Record<string, any>, toolContext: ToolContext = {}): Promise<any> {
+    await this.admit(name, args, toolContext);
+    return this.runTool(name, args, toolContext);
+  }
+
+  // Reject unknown tools and run the access and approval checks. The server
+  // calls this before its health check, so an outage doesn't hide a denial.
+  async admit(name: string, args: Record<string, any>, toolContext: ToolContext = {}): Promise<void> {
+    const spec = TOOL_SPECS.find((candidate) => candidate.name === name);
+    if (!spec) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    this.authorize(name, args);
+    // Nobody should be asked to approve a call that can't run
+    parseInput(name, spec.input, args);
+    await this.approve(name, args, toolContext.approval);
+  }
+
+  // Run a call that admit has let through
+  async runTool(name: string, args: Record<string, any>, toolContext: ToolContext = {}): Promise<any> {
+    const context: CallContext = { ...toolContext, backend: this.backendFor(name, args) ?? this.backends.default };
+
     switch (name) {
       case 'findElement':
-        return this.findElement(args);
+        return this.findElement(args, context);
       case 'afterSendDiff':
-        return this.afterSendDiff(args);
+        return this.afterSendDiff(args, context);
       case 'observeElement':
-        return this.observeElement(args);
+        return this.observeElement(args, context);
       case 'captureSnapshot':
-        return this.captureSnapshot(args);
+        return this.captureSnapshot(args, context);
+      case 'sendMessage':
+        return this.sendMessage(args, context);
       case 'learnSignature':
-        return this.learnSignature(args);
+        return this.learnSignature(args, context);
       case 'getStatus':
-        return this.getStatus(args);
+        return this.getStatus(args, context);
       case 'listSignatures':
-        return this.listSignatures(args);
+        return this.listSignatures(args, context);
+      case 'exportSignatures':
+        return this.exportSignatures(args, context);
+      case 'importSignatures':
+        return this.importSignatures(args, context);
+      case 'compareSignatures':
+        return this.compareSignatures(args, context);
+      case 'listHandles':
+        return this.listHandles(args);
+      case 'clearHandles':
+        return this.clearHandles(args);
+      case 'waitForReplyComplete':
+        return this.waitForReplyComplete(args, context);
+      case 'askApp':
+        return this.askApp(args, context);
+      case 'startObservation':
+        return this.startObservation(args, context);
+      case 'pollObservation':
+        return this.pollObservation(args);
+      case 'stopObservation':
+        return this.stopObservation(args);
+      case 'getAuditLog':
+        return this.getAuditLog(args);
       default:
-        throw new Error(`Unknown tool: ${name}`);
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+  }
+
+  // Check every app a call touches against the allow/block lists before
+  // anything is sent to the service; each decision is audited
+  private authorize(name: string, args: Record<string, any>): void {
+    if (!this.access.restricted) {
+      return;
+    }
+    for (const appBundleId of this.appsOf(args)) {
+      const decision = this.access.check(appBundleId);
+      this.audit.record({
+        time: new Date().toISOString(),
+        type: 'access',
+        tool: name,
+        appBundleId,
+        decision: decision.allowed ? 'allow' : 'deny',
+        rule: decision.rule,
+        reason: decision.reason,
+      });
+      if (!decision.allowed) {
+        throw new McpError(
+          UIScoutErrorCode.AccessDenied,
+          `Access to ${appBundleId} is denied: it ${decision.reason}`,
+          { tool: name, appBundleId, rule: decision.rule }
+        );
+      }
+    }
+  }
+
+  // Ask for confirmation of calls that type into apps or change the signature
+  // store, when the configuration requires it; each outcome is audited
+  private async approve(name: string, args: Record<string, any>, channel?: ApprovalChannel): Promise<void> {
+    const appBundleId = this.routingApp(args);
+    // Dry runs change nothing, and an export only does when it writes a file
+    const changesNothing = args.dryRun === true || (name === 'exportSignatures' && args.file === undefined);
+    if (changesNothing || !this.approvals.requires(name, appBundleId)) {
+      return;
+    }
+
+    const decision = await this.approvals.decide({ tool: name, appBundleId, action: describeAction(name, args, appBundleId) }, channel);
+    this.audit.record({
+      time: new Date().toISOString(),
+      type: 'approval',
+      tool: name,
+      appBundleId,
+      decision: decision.approved ? 'approve' : 'deny',
+      method: decision.method,
+      reason: decision.reason,
+    });
+    if (decision.invalidConfig) {
+      throw new McpError(
+        UIScoutErrorCode.ConfigInvalid,
+        `${name} was not approved: ${decision.reason}; fix mcp.approval.file`,
+        { tool: name, appBundleId, method: decision.method }
+      );
+    }
+    if (!decision.approved) {
+      throw new McpError(
+        UIScoutErrorCode.ApprovalDenied,
+        `${name} was not approved: ${decision.reason}`,
+        { tool: name, appBundleId, method: decision.method }
+      );
+    }
+  }
+
+  private aggregatesStatus(name: string, args: Record<string, any>): boolean {
+    return name === 'getStatus' && args.backend === undefined && this.backends.size > 1;
+  }
+
+  // The app a call is about, taken from appBundleId or the signature argument
+  routingApp(args: Record<string, any>): string | undefined {
+    if (typeof args.appBundleId === 'string') {
+      return args.appBundleId;
+    }
+    return this.signatureApp(args.signature ?? args.preSignature ?? args.baseline);
+  }
+
+  // Every app a call names, including those of its signature arguments
+  private appsOf(args: Record<string, any>): string[] {
+    const apps = [args.appBundleId, ...[args.signature, args.preSignature, args.baseline, args.current].map((sig) => this.signatureApp(sig))];
+    return [...new Set(apps.filter((app): app is string => typeof app === 'string'))];
+  }
+
+  private signatureApp(signature: unknown): string | undefined {
+    if (typeof signature === 'string') {
+      return HANDLE_PATTERN.test(signature)
+        ? this.registry.resolve(signature)?.appBundleId
+        : parseSignatureId(signature)?.appBundleId;
     }
+    const app = (signature as { appBundleId?: unknown } | undefined)?.appBundleId;
+    return typeof app === 'string' ? app : undefined;
+  }
+
+  // Why a bulk export or import must leave an app out; single-app calls are
+  // rejected by authorize instead
+  private accessExclusion(appBundleId: string): string | undefined {
+    const decision = this.access.check(appBundleId);
+    return decision.allowed ? undefined : `access denied: it ${decision.reason}`;
+  }
+
+  private unknownObservation(sessionId: string): McpError {
+    return new McpError(
+      ErrorCode.InvalidParams,
+      `sessionId: unknown or expired observation "${sessionId}"`,
+      { issues: [{ field: 'sessionId', message: 'Unknown observation', code: 'not_found' }] }
+    );
   }
 
-  private async findElement(args: Record<string, any>) {
-    const input = FindElementInputSchema.parse(args);
+  private async resolveSignature(
+    field: string,
+    input: SignatureInput,
+    backend: Backend,
+    signal?: AbortSignal
+  ): Promise<ElementSignature> {
+    if (isFullSignature(input)) {
+      return input;
+    }
+
+    if (typeof input === 'string' && HANDLE_PATTERN.test(input)) {
+      const signature = this.registry.resolve(input);
+      if (!signature) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${field}: unknown or expired handle "${input}"; call findElement or listSignatures again`,
+          { issues: [{ field, message: 'Unknown handle', code: 'not_found' }] }
+        );
+      }
+      return signature;
+    }
+
+    const ref = typeof input === 'string' ? parseSignatureId(input) : input;
+    if (!ref) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${field}: "${input}" is not a signature ID; expected "<appBundleId>-<${ELEMENT_TYPES.join('|')}>"`,
+        { issues: [{ field, message: 'Invalid signature ID', code: 'invalid_string' }] }
+      );
+    }
+
+    const { signatures } = await backend.client.listSignatures(ref.appBundleId, ref.elementType, signal);
+    if (signatures.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${field}: no stored ${ref.elementType} signature for ${ref.appBundleId}; call findElement first`,
+        { issues: [{ field, message: 'Signature not found', code: 'not_found' }] }
+      );
+    }
+
+    return signatures.reduce((best, sig) => (sig.stability > best.stability ? sig : best));
+  }
+
+  private async findElement(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('findElement', FindElementInputSchema, args);
     
-    const result = await this.client.findElement(
+    const result = await backend.client.findElement(
       input.appBundleId,
-      input.elementType as ElementType,
-      input.policy
+      input.elementType,
+      input.policy,
+      signal
     );
 
     // Add human-readable summary
@@ -278,6 +675,7 @@ export class UIScoutTools {
         diffScore: result.evidence.diffScore,
         ocrUsed: result.evidence.ocrChange,
       },
+      handle: this.registry.register(result.elementSignature, 'findElement'),
       signature: result.elementSignature,
       needsPermissions: result.needsPermissions,
       summary: result.success 
@@ -286,13 +684,16 @@ export class UIScoutTools {
     };
   }
 
-  private async afterSendDiff(args: Record<string, any>) {
-    const input = AfterSendDiffInputSchema.parse(args);
+  private async afterSendDiff(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('afterSendDiff', AfterSendDiffInputSchema, args);
     
-    const result = await this.client.afterSendDiff(
+    const preSignature = await this.resolveSignature('preSignature', input.preSignature, backend, signal);
+
+    const result = await backend.client.afterSendDiff(
       input.appBundleId,
-      input.preSignature as ElementSignature,
-      input.policy
+      preSignature,
+      input.policy,
+      signal
     );
 
     const changesDetected = result.evidence.diffScore > 0.1 || result.evidence.ocrChange;
@@ -307,6 +708,7 @@ export class UIScoutTools {
         ocrChange: result.evidence.ocrChange,
         notifications: result.evidence.notifications,
       },
+      handle: this.registry.register(result.elementSignature, 'afterSendDiff'),
       signature: result.elementSignature,
       summary: changesDetected
         ? `Changes detected after message send (${Math.round(result.confidence * 100)}% confidence)`
@@ -314,34 +716,54 @@ export class UIScoutTools {
     };
   }
 
-  private async observeElement(args: Record<string, any>) {
-    const input = ObserveElementInputSchema.parse(args);
+  private async observeElement(args: Record<string, any>, { signal, progress, backend }: CallContext) {
+    const input = parseInput('observeElement', ObserveElementInputSchema, args);
     
+    const signature = await this.resolveSignature('signature', input.signature, backend, signal);
+
     const events: any[] = [];
     const startTime = Date.now();
+    let skippedEvents = 0;
 
     try {
-      for await (const event of this.client.observeElement(
+      for await (const event of backend.client.observeElement(
         input.appBundleId,
-        input.signature as ElementSignature,
+        signature,
         input.durationSeconds,
-        input.policy
+        input.policy,
+        signal,
+        () => skippedEvents++
       )) {
         if (event.type === 'event') {
-          events.push({
+          const entry = {
             timestamp: new Date(event.timestamp * 1000).toISOString(),
             notification: event.notification,
             timeOffset: Math.round((event.timestamp * 1000 - startTime) / 1000 * 10) / 10, // seconds
+          };
+          events.push(entry);
+
+          // Forward each event live so the host isn't blind for the whole duration
+          await progress?.({
+            progress: events.length,
+            message: `${entry.notification} at +${entry.timeOffset}s of ${input.durationSeconds}s`,
           });
         } else if (event.type === 'complete') {
           break;
         }
       }
     } catch (error) {
+      // A cancelled observation still returns what it saw; service failures
+      // are reported like every other tool's
+      const cancelled = signal?.aborted || (error instanceof UIScoutClientError && error.kind === 'aborted');
+      if (!cancelled) {
+        throw error;
+      }
       return {
         success: false,
+        cancelled: true,
         error: error instanceof Error ? error.message : String(error),
         eventsCollected: events.length,
+        skippedEvents,
         events,
       };
     }
@@ -350,17 +772,22 @@ export class UIScoutTools {
       success: true,
       duration: input.durationSeconds,
       eventsCollected: events.length,
+      skippedEvents,
       events,
-      summary: `Observed ${events.length} events over ${input.durationSeconds} seconds`,
+      summary: `Observed ${events.length} events over ${input.durationSeconds} seconds`
+        + (skippedEvents ? ` (${skippedEvents} malformed events skipped)` : ''),
     };
   }
 
-  private async captureSnapshot(args: Record<string, any>) {
-    const input = CaptureSnapshotInputSchema.parse(args);
+  private async captureSnapshot(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('captureSnapshot', CaptureSnapshotInputSchema, args);
     
-    const result = await this.client.captureSnapshot(
+    const signature = await this.resolveSignature('signature', input.signature, backend, signal);
+
+    const result = await backend.client.captureSnapshot(
       input.appBundleId,
-      input.signature as ElementSignature
+      signature,
+      signal
     );
 
     if (!result.success) {
@@ -379,27 +806,71 @@ export class UIScoutTools {
     };
   }
 
-  private async learnSignature(args: Record<string, any>) {
-    const input = LearnSignatureInputSchema.parse(args);
+  private async sendMessage(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('sendMessage', SendMessageInputSchema, args);
+
+    const result = await backend.client.sendMessage(
+      input.appBundleId,
+      input.text,
+      input.policy,
+      signal
+    );
+
+    const { setValue, pressedSend, confirmedInput } = result.actions;
+    const submitted = pressedSend ? 'pressed send' : confirmedInput ? 'confirmed input' : 'could not submit';
+
+    return {
+      success: result.success,
+      steps: {
+        valueSet: setValue,
+        sendPressed: pressedSend,
+        inputConfirmed: confirmedInput,
+      },
+      diff: {
+        confidence: result.diff.confidence,
+        diffScore: result.diff.diffScore,
+        ocrChange: result.diff.ocrChange,
+      },
+      elements: result.elements,
+      summary: setValue
+        ? `Set input value and ${submitted}; reply diff confidence ${Math.round(result.diff.confidence * 100)}%`
+        : `Failed to set input value in ${input.appBundleId}`,
+    };
+  }
+
+  private async learnSignature(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('learnSignature', LearnSignatureInputSchema, args);
     
-    const result = await this.client.learnSignature(
-      input.signature as ElementSignature,
+    const signature = await this.resolveSignature('signature', input.signature, backend, signal);
+
+    const result = await backend.client.learnSignature(
+      signature,
       input.pin,
-      input.decay
+      input.decay,
+      signal
     );
 
     return {
       success: result.success,
       action: result.action,
       signatureId: result.signatureId,
-      summary: `Signature ${result.action} for ${input.signature.appBundleId}/${input.signature.elementType}`,
+      appBundleId: signature.appBundleId,
+      elementType: signature.elementType,
+      summary: `Signature ${result.action} for ${signature.appBundleId}/${signature.elementType}`,
     };
   }
 
-  private async getStatus(args: Record<string, any>) {
-    const status = await this.client.getStatus();
+  private async getStatus(args: Record<string, any>, { signal, backend }: CallContext) {
+    parseInput('getStatus', GetStatusInputSchema, args);
+
+    if (this.aggregatesStatus('getStatus', args)) {
+      return this.getStatusOfAllBackends(signal);
+    }
+
+    const status = await backend.client.getStatus(signal);
     
     return {
+      backend: backend.name,
       ...status,
       summary: status.canOperate 
         ? `UIScout is operational. ${status.store.signatureCount} signatures stored.`
@@ -407,13 +878,51 @@ export class UIScoutTools {
     };
   }
 
-  private async listSignatures(args: Record<string, any>) {
-    const input = ListSignaturesInputSchema.parse(args);
+  // Ask every backend at once; one being down doesn't fail the whole report
+  private async getStatusOfAllBackends(signal?: AbortSignal) {
+    const backends = await Promise.all(this.backends.list().map(async (backend) => {
+      try {
+        await backend.health.ensureAvailable();
+        const status = await backend.client.getStatus(signal);
+        backend.health.recordSuccess();
+        return { backend: backend.name, url: backend.url, reachable: true, ...status };
+      } catch (error) {
+        backend.health.recordFailure(error);
+        return {
+          backend: backend.name,
+          url: backend.url,
+          reachable: false,
+          canOperate: false,
+          error: toMcpError(error, 'getStatus').message,
+        };
+      }
+    }));
+
+    const operational = backends.filter((b) => b.canOperate).map((b) => b.backend);
+    const problems = backends
+      .filter((b) => !b.canOperate)
+      .map((b) => ('error' in b ? `${b.backend}: ${b.error}` : `${b.backend}: missing ${b.permissions.needsPrompt.join(', ')}`));
+
+    return {
+      canOperate: operational.length === backends.length,
+      backends,
+      summary: `${operational.length} of ${backends.length} UIScout backends operational`
+        + (problems.length ? `. ${problems.join('; ')}` : ''),
+    };
+  }
+
+
+  private async listSignatures(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('listSignatures', ListSignaturesInputSchema, args);
     
-    const result = await this.client.listSignatures(
+    const listed = await backend.client.listSignatures(
       input.appBundleId,
-      input.elementType as ElementType | undefined
+      input.elementType,
+      signal
     );
+    // Blocked apps are left out, as in the uiscout:// resource listing
+    const signatures = listed.signatures.filter((sig) => !this.accessExclusion(sig.appBundleId));
+    const result = { ...listed, signatures, count: signatures.length, excluded: listed.count - signatures.length };
 
     // Group by app for better readability
     const byApp = result.signatures.reduce((acc, sig) => {
@@ -421,6 +930,7 @@ export class UIScoutTools {
         acc[sig.appBundleId] = [];
       }
       acc[sig.appBundleId].push({
+        handle: this.registry.register(sig, 'listSignatures'),
         elementType: sig.elementType,
         role: sig.role,
         stability: Math.round(sig.stability * 100) / 100,
@@ -431,9 +941,518 @@ export class UIScoutTools {
 
     return {
       total: result.count,
+      skipped: result.skipped,
+      excluded: result.excluded,
       byApplication: byApp,
       signatures: result.signatures,
-      summary: `Found ${result.count} signatures${input.appBundleId ? ` for ${input.appBundleId}` : ''}${input.elementType ? ` of type ${input.elementType}` : ''}`,
+      summary: `Found ${result.count} signatures${input.appBundleId ? ` for ${input.appBundleId}` : ''}${input.elementType ? ` of type ${input.elementType}` : ''}`
+        + (result.skipped ? ` (${result.skipped} unrecognized signatures skipped)` : '')
+        + (result.excluded ? ` (${result.excluded} left out by the security lists)` : ''),
+    };
+  }
+
+  private async exportSignatures(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('exportSignatures', ExportSignaturesInputSchema, args);
+    const file = input.file !== undefined ? await this.bundlePath('exportSignatures', input.file) : undefined;
+
+    const { bundle, skipped, excluded } = await backend.client.exportSignatures({
+      appBundleId: input.appBundleId,
+      elementType: input.elementType,
+      pinned: input.pinned,
+      excludeApp: (app) => this.accessExclusion(app),
+    }, signal);
+
+    if (file) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, `${JSON.stringify(bundle, null, 2)}\n`);
+    }
+
+    const count = bundle.signatures.length;
+    return {
+      backend: backend.name,
+      file,
+      count,
+      skipped,
+      excluded,
+      checksum: bundle.checksum,
+      bundle: file ? undefined : bundle,
+      summary: `Exported ${count} signatures${input.appBundleId ? ` for ${input.appBundleId}` : ''}${input.elementType ? ` of type ${input.elementType}` : ''}`
+        + (file ? ` to ${file}` : '')
+        + (excluded ? ` (${excluded} left out by the security lists)` : '')
+        + (input.pinned === undefined ? '; pin state was not recorded' : ''),
+    };
+  }
+
+  private async importSignatures(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('importSignatures', ImportSignaturesInputSchema, args);
+    if ((input.file === undefined) === (input.bundle === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid arguments for importSignatures: give either file or bundle',
+        { tool: 'importSignatures', issues: [{ field: 'file', message: 'Give either file or bundle', code: 'custom' }] }
+      );
+    }
+
+    const file = input.file !== undefined ? await this.bundlePath('importSignatures', input.file) : undefined;
+    const report = await backend.client.importSignatures(file ? await readBundleFile(file) : input.bundle, {
+      strategy: input.strategy,
+      dryRun: input.dryRun,
+      apps: input.apps,
+      elementTypes: input.elementTypes,
+      excludeApp: (app) => this.accessExclusion(app),
+    }, signal);
+
+    // What resource subscribers are told about
+    const changed = new Map(report.entries
+      .filter((entry) => entry.applied)
+      .map(({ appBundleId, elementType }) => [`${appBundleId}-${elementType}`, { appBundleId, elementType }]));
+
+    const verb = report.dryRun ? 'Would import' : 'Imported';
+    return {
+      backend: backend.name,
+      file,
+      ...report,
+      changed: [...changed.values()],
+      summary: `${verb} ${report.created + report.overwritten} of ${report.total} signatures`
+        + ` (${report.created} new, ${report.overwritten} overwritten, ${report.skipped} skipped`
+        + (report.filtered ? `, ${report.filtered} filtered out` : '')
+        + (report.failed ? `, ${report.failed} failed` : '')
+        + ')',
+    };
+  }
+
+  private async compareSignatures(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('compareSignatures', CompareSignaturesInputSchema, args);
+
+    const baseline = await this.resolveSignature('baseline', input.baseline, backend, signal);
+    let current: ElementSignature;
+    let fresh;
+    if (input.current !== undefined) {
+      current = await this.resolveSignature('current', input.current, backend, signal);
+    } else {
+      const result = await backend.client.findElement(baseline.appBundleId, baseline.elementType, input.policy, signal);
+      current = result.elementSignature;
+      fresh = {
+        success: result.success,
+        confidence: result.confidence,
+        method: result.evidence.method,
+        handle: this.registry.register(current, 'compareSignatures'),
+      };
+    }
+
+    const comparison = compareSignatures(baseline, current);
+    const [top] = comparison.likelyCauses;
+    const against = fresh ? `a fresh ${baseline.elementType} match (${Math.round(fresh.confidence * 100)}% confidence)` : 'the current signature';
+    return {
+      appBundleId: baseline.appBundleId,
+      elementType: baseline.elementType,
+      fresh,
+      ...comparison,
+      summary: comparison.identical
+        ? `The ${baseline.elementType} signature for ${baseline.appBundleId} matches ${against} in every compared field`
+        : `${comparison.likelyCauses.length} fields differ from ${against} (similarity ${comparison.similarity}); most likely cause: ${top.detail}`,
+    };
+  }
+
+  private async listHandles(args: Record<string, any>) {
+    parseInput('listHandles', ListHandlesInputSchema, args);
+
+    const handles = this.registry.list().map((entry) => ({
+      handle: entry.handle,
+      app: entry.signature.appBundleId,
+      elementType: entry.signature.elementType,
+      role: entry.signature.role,
+      source: entry.source,
+      lastUsed: new Date(entry.lastUsedAt).toISOString(),
+    }));
+
+    return {
+      total: handles.length,
+      handles,
+      summary: `${handles.length} signature handles active (expire after ${Math.round(this.registry.ttlMs / 60000)} minutes unused)`,
+    };
+  }
+
+  private async clearHandles(args: Record<string, any>) {
+    const input = parseInput('clearHandles', ClearHandlesInputSchema, args);
+
+    const removed = this.registry.clear(input.handles);
+
+    return {
+      success: true,
+      removed,
+      summary: `Cleared ${removed} signature handles`,
+    };
+  }
+
+  private async waitForReplyComplete(args: Record<string, any>, { signal, progress, backend }: CallContext) {
+    const input = parseInput('waitForReplyComplete', WaitForReplyCompleteInputSchema, args);
+
+    const signature = await this.resolveSignature('signature', input.signature, backend, signal);
+
+    const result = await waitForReplyComplete(backend.client, input.appBundleId, signature, {
+      quietPeriodMs: input.quietPeriodSeconds * 1000,
+      timeoutMs: input.timeoutSeconds * 1000,
+      pollIntervalMs: input.pollIntervalMs,
+      requireChange: input.requireChange,
+      policy: input.policy,
+      signal,
+      onChange: (point) => progress?.({
+        progress: point.offset,
+        total: input.timeoutSeconds,
+        message: `Reply at ${point.textLength} chars, ${point.childCount} children (+${point.offset}s)`,
+      }),
+    });
+
+    const seconds = Math.round(result.elapsedMs / 100) / 10;
+    const length = result.snapshot ? `${result.snapshot.textLength} chars` : 'no snapshot';
+
+    return {
+      success: result.completed,
+      ...result,
+      summary: result.completed
+        ? `Reply complete after ${seconds}s (${length}, ${result.changes} changes)`
+        : `Reply still ${result.changes > 0 ? 'changing' : 'unchanged'} after ${seconds}s timeout (${length})`,
+    };
+  }
+
+  private async askApp(args: Record<string, any>, { signal, progress, backend }: CallContext) {
+    const input = parseInput('askApp', AskAppInputSchema, args);
+    const { minConfidence } = backend.client.resolvePolicy(input.policy);
+    const startedAt = Date.now();
+    const stages: AskAppStage[] = [];
+    const handles: { input?: string; reply?: string } = {};
+    // Once sending has started the text may have been typed, even if a later stage fails
+    let sendStarted = false;
+    let stageError: string | undefined;
+
+    // Run one stage; it passes when it succeeded and is confident enough. A
+    // stage the service fails is recorded as failed and yields null, so the
+    // report of the stages before it is not lost. Cancellation and transport
+    // errors (timeouts, refused connections) still fail the call, so the
+    // request ends and the backend's health tracking sees them.
+    const stage = async <T>(
+      name: AskAppStage['stage'],
+      action: () => Promise<T>,
+      assess: (result: T) => { ok: boolean; confidence?: number; detail: string }
+    ): Promise<{ result: T; passed: boolean } | null> => {
+      const began = Date.now();
+      let result: T;
+      try {
+        result = await action();
+      } catch (error) {
+        if (signal?.aborted || (error instanceof UIScoutClientError && error.kind !== 'http')) {
+          throw error;
+        }
+        stageError = error instanceof Error ? error.message : String(error);
+        stages.push({ stage: name, ok: false, durationMs: Date.now() - began, detail: `failed: ${stageError}` });
+        await progress?.({ progress: stages.length, total: ASK_APP_STAGES, message: `${name}: failed: ${stageError}` });
+        return null;
+      }
+      const { ok, confidence, detail } = assess(result);
+      const passed = ok && (confidence === undefined || confidence >= minConfidence);
+      stages.push({ stage: name, ok: passed, confidence, durationMs: Date.now() - began, detail });
+      await progress?.({ progress: stages.length, total: ASK_APP_STAGES, message: `${name}: ${detail}` });
+      return { result, passed };
+    };
+
+    const percent = (confidence: number) => `${Math.round(confidence * 100)}% confidence`;
+
+    // Stop at the first stage that falls short and report what was done so far
+    const partial = (reason: string, reply: ReturnType<typeof readReply> | null = null) => ({
+      success: false,
+      partial: true,
+      failedStage: stages[stages.length - 1].stage,
+      error: stageError,
+      messageSent: sendStarted,
+      reply,
+      handles,
+      stages,
+      totalMs: Date.now() - startedAt,
+      summary: `askApp stopped at ${stages[stages.length - 1].stage}: ${reason}`,
+    });
+
+    const failed = () => partial(`${stageError}; ${sendStarted
+      ? `the message may already have been sent, so check the app before sending it again${handles.reply ? ` (reply handle ${handles.reply})` : ''}`
+      : 'nothing was sent'}`);
+
+    const inputFound = await stage('findInput',
+      () => backend.client.findElement(input.appBundleId, 'input', input.policy, signal),
+      (found) => ({ ok: found.success, confidence: found.confidence, detail: percent(found.confidence) }));
+    if (!inputFound) {
+      return failed();
+    }
+    handles.input = this.registry.register(inputFound.result.elementSignature, 'askApp');
+    if (!inputFound.passed) {
+      return partial(`input field found with only ${percent(inputFound.result.confidence)} (minimum ${percent(minConfidence)}); nothing was sent`);
+    }
+
+    const replyFound = await stage('findReply',
+      () => backend.client.findElement(input.appBundleId, 'reply', input.policy, signal),
+      (found) => ({ ok: found.success, confidence: found.confidence, detail: percent(found.confidence) }));
+    if (!replyFound) {
+      return failed();
+    }
+    handles.reply = this.registry.register(replyFound.result.elementSignature, 'askApp');
+    if (!replyFound.passed) {
+      return partial(`reply area found with only ${percent(replyFound.result.confidence)} (minimum ${percent(minConfidence)}); nothing was sent`);
+    }
+
+    sendStarted = true;
+    const sent = await stage('send',
+      () => backend.client.sendMessage(input.appBundleId, input.text, input.policy, signal),
+      (result) => {
+        const submitted = result.actions.setValue && (result.actions.pressedSend || result.actions.confirmedInput);
+        return {
+          ok: result.success && submitted,
+          confidence: result.diff.confidence,
+          detail: submitted ? `submitted, reply diff ${percent(result.diff.confidence)}` : 'could not submit the message',
+        };
+      });
+    if (!sent) {
+      return failed();
+    }
+    if (!sent.passed) {
+      return partial(stages[stages.length - 1].detail);
+    }
+
+    const diff = await stage('afterSendDiff',
+      () => backend.client.afterSendDiff(input.appBundleId, replyFound.result.elementSignature, input.policy, signal),
+      (result) => ({ ok: result.success, confidence: result.confidence, detail: percent(result.confidence) }));
+    if (!diff) {
+      return failed();
+    }
+    handles.reply = this.registry.register(diff.result.elementSignature, 'askApp');
+    if (!diff.passed) {
+      return partial(`message sent, but the reply change was detected with only ${percent(diff.result.confidence)}; use waitForReplyComplete with handle ${handles.reply} to read the reply`);
+    }
+
+    const waited = await stage('waitForReply',
+      () => waitForReplyComplete(backend.client, input.appBundleId, diff.result.elementSignature, {
+        quietPeriodMs: input.quietPeriodSeconds * 1000,
+        timeoutMs: input.timeoutSeconds * 1000,
+        // afterSendDiff has already seen the reply change
+        requireChange: false,
+        policy: input.policy,
+        signal,
+      }),
+      (result) => ({
+        ok: result.completed && result.snapshot !== null,
+        detail: result.completed
+          ? `settled after ${result.changes} changes`
+          : `still changing after ${input.timeoutSeconds}s`,
+      }));
+    if (!waited) {
+      return failed();
+    }
+    const snapshot = waited.result.snapshot;
+    if (!waited.passed || !snapshot) {
+      return snapshot
+        ? partial(`reply did not settle within ${input.timeoutSeconds}s; returning it as it was`, readReply(snapshot))
+        : partial('could not snapshot the reply area');
+    }
+
+    return {
+      success: true,
+      partial: false,
+      reply: readReply(snapshot),
+      handles,
+      stages,
+      totalMs: Date.now() - startedAt,
+      summary: snapshot.value !== null
+        ? `Got a ${snapshot.textLength}-char reply from ${input.appBundleId} in ${Math.round((Date.now() - startedAt) / 100) / 10}s`
+        : `Reply from ${input.appBundleId} settled but its text is not readable through accessibility (${snapshot.textLength} chars)`,
+    };
+  }
+
+  private async startObservation(args: Record<string, any>, { signal, backend }: CallContext) {
+    const input = parseInput('startObservation', StartObservationInputSchema, args);
+
+    const signature = await this.resolveSignature('signature', input.signature, backend, signal);
+
+    // The stream outlives this call, so it is deliberately not tied to the request's signal
+    const session = this.observations.start(
+      backend.client,
+      input.appBundleId,
+      signature,
+      input.durationSeconds,
+      input.policy
+    );
+
+    return {
+      success: true,
+      sessionId: session.id,
+      ...describeObservation(session),
+      summary: `Started observing ${signature.elementType} in ${input.appBundleId} for ${input.durationSeconds} seconds as ${session.id}`,
+    };
+  }
+
+  private async pollObservation(args: Record<string, any>) {
+    const input = parseInput('pollObservation', PollObservationInputSchema, args);
+
+    const result = this.observations.poll(input.sessionId, input.cursor, input.limit);
+    if (!result) {
+      throw this.unknownObservation(input.sessionId);
+    }
+
+    const { session, events, cursor, dropped } = result;
+    const pending = session.events.filter((event) => event.seq >= cursor).length;
+
+    return {
+      sessionId: session.id,
+      ...describeObservation(session),
+      cursor,
+      events,
+      dropped,
+      more: pending > 0,
+      summary: `${session.id} is ${session.status}: ${events.length} new events`
+        + (dropped ? ` (${dropped} older events were dropped from the buffer)` : '')
+        + (pending ? `, ${pending} more pending` : ''),
+    };
+  }
+
+  private async stopObservation(args: Record<string, any>) {
+    const input = parseInput('stopObservation', StopObservationInputSchema, args);
+
+    const session = this.observations.stop(input.sessionId);
+    if (!session) {
+      throw this.unknownObservation(input.sessionId);
+    }
+
+    return {
+      success: true,
+      sessionId: session.id,
+      ...describeObservation(session),
+      summary: `${session.id} is ${session.status} after ${session.nextSeq} events`,
+    };
+  }
+
+  private async getAuditLog(args: Record<string, any>) {
+    const input = parseInput('getAuditLog', GetAuditLogInputSchema, args);
+
+    const entries = this.audit.query(input);
+    const failed = entries.filter((entry) => entry.type === 'call' && !entry.success).length;
+    const denied = entries.filter((entry) => entry.type !== 'call' && entry.decision.startsWith('deny')).length;
+
+    return {
+      file: this.audit.file,
+      count: entries.length,
+      entries,
+      summary: `${entries.length} audit entries`
+        + (failed ? `, ${failed} failed calls` : '')
+        + (denied ? `, ${denied} denials` : '')
+        + (this.audit.file ? '' : ' (kept in memory only; set logging.audit_file to persist them)'),
     };
   }
+
+  // Resolve a bundle file name against the bundle directory. Names that end
+  // up outside it, directly or through a symlink, are refused.
+  private async bundlePath(tool: string, file: string): Promise<string> {
+    const invalid = (message: string, issue: string) => new McpError(
+      ErrorCode.InvalidParams,
+      `file: ${message}`,
+      { tool, issues: [{ field: 'file', message: issue, code: 'custom' }] }
+    );
+    if (!this.bundlesDir) {
+      throw invalid('no bundle directory is configured (mcp.bundles_dir); pass the bundle inline instead', 'No bundle directory configured');
+    }
+
+    const dir = path.resolve(this.bundlesDir);
+    const resolved = path.resolve(dir, file);
+    if (!isInside(dir, resolved) || !isInside(await realPathOf(dir), await realPathOf(resolved))) {
+      throw invalid(`${file} is outside the bundle directory ${dir}`, 'Outside the bundle directory');
+    }
+    return resolved;
+  }
+}
+
+// Whether `file` is below `dir` (not `dir` itself)
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// The real path of a file that may not exist yet: its nearest existing
+// ancestor with symlinks resolved, plus the rest of the path
+async function realPathOf(file: string): Promise<string> {
+  const rest: string[] = [];
+  let current = file;
+  for (;;) {
+    try {
+      return path.join(await realpath(current), ...rest);
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) {
+        return path.join(current, ...rest);
+      }
+      rest.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+async function readBundleFile(file: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `file: cannot read ${file}: ${error instanceof Error ? error.message : error}`,
+      { tool: 'importSignatures', issues: [{ field: 'file', message: 'Cannot read file', code: 'not_found' }] }
+    );
+  }
+  // The parser's message can quote the text, so only the file is named
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SignatureBundleError(`Signature bundle ${file} is not valid JSON`);
+  }
+}
+
+function readReply(snapshot: ElementSnapshot) {
+  return {
+    text: snapshot.value,
+    textLength: snapshot.textLength,
+    childCount: snapshot.childCount,
+  };
+}
+
+function describeObservation(session: ObservationSession) {
+  return {
+    status: session.status,
+    error: session.error,
+    app: session.appBundleId,
+    elementType: session.signature.elementType,
+    durationSeconds: session.durationSeconds,
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt: session.endedAt !== undefined ? new Date(session.endedAt).toISOString() : undefined,
+    eventsRecorded: session.nextSeq,
+    skippedEvents: session.skippedEvents,
+  };
+}
+
+// What a gated call will do, in words for the approval prompt
+function describeAction(name: string, args: Record<string, any>, appBundleId?: string): string {
+  const app = appBundleId ?? 'an unknown app';
+  const text = typeof args.text === 'string'
+    ? JSON.stringify(args.text.length > 200 ? `${args.text.slice(0, 200)}...` : args.text)
+    : 'text';
+  switch (name) {
+    case 'sendMessage':
+      return `type ${text} into ${app} and send it`;
+    case 'askApp':
+      return `send ${text} to ${app} and read the reply`;
+    case 'learnSignature': {
+      const elementType = typeof args.signature === 'object' ? args.signature?.elementType : undefined;
+      return `store ${elementType ? `a ${elementType}` : 'an element'} signature for ${app} in the signature store`;
+    }
+    case 'exportSignatures':
+      return `write ${appBundleId ? `the stored signatures of ${app}` : 'every stored signature'} to ${args.file}`;
+    case 'importSignatures':
+      return `import signatures from ${typeof args.file === 'string' ? args.file : 'an inline bundle'} into the signature store`
+        + ` (existing signatures: ${args.strategy ?? 'skip'})`;
+    default:
+      return `run on ${app}`;
+  }
 }
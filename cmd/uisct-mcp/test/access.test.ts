@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppAccessPolicy } from '../src/access.js';
+
+test('an empty policy allows every app', () => {
+  const policy = new AppAccessPolicy();
+
+  assert.equal(policy.restricted, false);
+  assert.equal(policy.check('com.apple.Terminal').allowed, true);
+});
+
+test('app names match the end of the bundle ID, ignoring spaces and case', () => {
+  const policy = new AppAccessPolicy({ blocked: ['Keychain Access', 'Terminal'] });
+
+  assert.deepEqual(policy.check('com.apple.keychainaccess').rule, { list: 'blocked_applications', pattern: 'Keychain Access' });
+  assert.equal(policy.check('com.apple.Terminal').allowed, false);
+  assert.equal(policy.check('com.example.terminalapp').allowed, true);
+  assert.equal(policy.check('com.raycast.macos').allowed, true);
+});
+
+test('known app names match their bundle IDs; unknown names are warned about', () => {
+  const policy = new AppAccessPolicy({ blocked: ['System Settings', 'Messages', 'Keychain Access', 'Acme Notes'] });
+
+  assert.deepEqual(policy.check('com.apple.systempreferences').rule, { list: 'blocked_applications', pattern: 'System Settings' });
+  assert.equal(policy.check('com.apple.MobileSMS').allowed, false);
+  assert.equal(policy.check('com.example.acmenotes').allowed, false);
+  assert.deepEqual(policy.warnings.length, 1);
+  assert.match(policy.warnings[0], /blocked_applications entry "Acme Notes" is not a known app name, so it only matches bundle IDs ending in "\.AcmeNotes"/);
+});
+
+test('bundle ID globs and block precedence over the allow list', () => {
+  const policy = new AppAccessPolicy({ allowed: ['com.raycast.*', 'com.openai.chat'], blocked: ['com.raycast.secrets'] });
+
+  const allowed = policy.check('com.raycast.macos');
+  assert.equal(allowed.allowed, true);
+  assert.deepEqual(allowed.rule, { list: 'allowed_applications', pattern: 'com.raycast.*' });
+
+  const blocked = policy.check('com.raycast.secrets');
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.reason, 'matches blocked_applications pattern "com.raycast.secrets"');
+
+  const unlisted = policy.check('com.apple.Safari');
+  assert.equal(unlisted.allowed, false);
+  assert.equal(unlisted.rule, undefined);
+  assert.match(unlisted.reason, /matches no allowed_applications pattern \("com\.raycast\.\*", "com\.openai\.chat"\)/);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ApprovalGate } from '../src/approval.js';
+
+const sendToRaycast = { tool: 'sendMessage', appBundleId: 'com.raycast.macos', action: 'type "hi" into com.raycast.macos and send it' };
+
+test('only mutating tools on the configured apps need approval', () => {
+  assert.equal(new ApprovalGate().requires('sendMessage', 'com.raycast.macos'), false);
+
+  const gate = new ApprovalGate({ required: true, apps: ['com.raycast.*', 'Messages'] });
+  assert.equal(gate.requires('sendMessage', 'com.raycast.macos'), true);
+  // Known app names also match bundle IDs that don't end in the name
+  assert.equal(gate.requires('askApp', 'com.apple.MobileSMS'), true);
+  assert.equal(gate.requires('askApp', 'com.apple.messages'), true);
+  assert.equal(gate.requires('findElement', 'com.raycast.macos'), false);
+  // The app of a bundle import is not known up front
+  assert.equal(gate.requires('importSignatures', undefined), true);
+});
+
+test('standing approvals come from the allowlist and the approval file', async () => {
+  const file = path.join(mkdtempSync(path.join(os.tmpdir(), 'ui-scout-approvals-')), 'approvals.json');
+  const gate = new ApprovalGate({ required: true, allowlist: [{ tool: 'learnSignature' }], file });
+
+  const learn = await gate.decide({ tool: 'learnSignature', appBundleId: 'com.raycast.macos', action: 'store' });
+  assert.deepEqual([learn.approved, learn.method], [true, 'allowlist']);
+
+  const unavailable = await gate.decide(sendToRaycast);
+  assert.deepEqual([unavailable.approved, unavailable.method], [false, 'unavailable']);
+  assert.match(unavailable.reason, /add \{"tool": "sendMessage", "app": "com\.raycast\.macos"\} to .*approvals\.json/);
+
+  writeFileSync(file, JSON.stringify({ approvals: [
+    { tool: 'sendMessage', app: 'com.raycast.*', until: '2000-01-01T00:00:00Z' },
+    { tool: 'send*', app: 'com.raycast.*' },
+  ] }));
+  const granted = await gate.decide(sendToRaycast);
+  assert.deepEqual([granted.approved, granted.method], [true, 'file']);
+
+  // A broken file denies the call and says why
+  writeFileSync(file, '{"approvals": [{"tool": 1}]}');
+  const broken = await gate.decide(sendToRaycast);
+  assert.deepEqual([broken.approved, broken.method, broken.invalidConfig], [false, 'file', true]);
+  assert.match(broken.reason, /Approval file .* is invalid: approvals\.0\.tool/);
+});
+
+test('the user is asked by elicitation before sampling', async () => {
+  const gate = new ApprovalGate({ required: true });
+  const asked: string[] = [];
+
+  const declined = await gate.decide(sendToRaycast, {
+    elicit: async (message) => {
+      asked.push(message);
+      return 'decline';
+    },
+    sample: async () => 'APPROVE',
+  });
+  assert.deepEqual([declined.approved, declined.method, declined.reason], [false, 'elicitation', 'declined by the user']);
+  assert.deepEqual(asked, ['Allow sendMessage to type "hi" into com.raycast.macos and send it?']);
+
+  const sampled = await gate.decide(sendToRaycast, { sample: async () => 'Approve.' });
+  assert.deepEqual([sampled.approved, sampled.method], [true, 'sampling']);
+
+  const refused = await gate.decide(sendToRaycast, { sample: async () => 'DENY' });
+  assert.deepEqual([refused.approved, refused.method], [false, 'sampling']);
+
+  const timedOut = await gate.decide(sendToRaycast, {
+    elicit: async () => {
+      throw new Error('Request timed out');
+    },
+  });
+  assert.deepEqual([timedOut.approved, timedOut.method, timedOut.reason], [false, 'elicitation', 'the approval request failed: Request timed out']);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AuditEntry, AuditLog, errorClassOf, redactArgs } from '../src/audit.js';
+import { UIScoutErrorCode } from '../src/errors.js';
+
+function call(tool: string, success = true, time = new Date().toISOString()): AuditEntry {
+  return { time, type: 'call', tool, args: {}, success, latencyMs: 1 };
+}
+
+test('typed text and full signatures are redacted, handles are kept', () => {
+  assert.deepEqual(
+    redactArgs({
+      appBundleId: 'com.raycast.macos',
+      text: 'hello',
+      signature: { appBundleId: 'com.raycast.macos', elementType: 'reply', label: 'Conversation with Sam' },
+      preSignature: 'sig_3',
+    }),
+    {
+      appBundleId: 'com.raycast.macos',
+      text: '[redacted: 5 chars]',
+      signature: { appBundleId: 'com.raycast.macos', elementType: 'reply' },
+      preSignature: 'sig_3',
+    }
+  );
+});
+
+test('error codes are named', () => {
+  assert.equal(errorClassOf(UIScoutErrorCode.AccessDenied), 'AccessDenied');
+  assert.equal(errorClassOf(-32602), 'InvalidParams');
+  assert.equal(errorClassOf(-1), 'Error-1');
+});
+
+test('files rotate by size and queries read back through them', () => {
+  const file = path.join(mkdtempSync(path.join(os.tmpdir(), 'ui-scout-audit-')), 'logs', 'audit.jsonl');
+  // Failed calls are the longer entries
+  const entrySize = Buffer.byteLength(`${JSON.stringify(call('tool00', false))}\n`);
+  const log = new AuditLog({ file, maxFileSize: entrySize * 2, maxFiles: 3 });
+
+  for (let i = 0; i < 7; i++) {
+    log.record(call(`tool0${i}`, i % 2 === 0));
+  }
+
+  // Two entries per file and three files: the oldest entry was deleted
+  assert.equal(readFileSync(file, 'utf8').trim().split('\n').length, 1);
+  assert.equal(existsSync(`${file}.2`), true);
+  assert.equal(existsSync(`${file}.3`), false);
+
+  assert.deepEqual(log.query({ limit: 10 }).map((entry) => entry.tool), ['tool06', 'tool05', 'tool04', 'tool03', 'tool02']);
+  assert.deepEqual(log.query({ limit: 2, errorsOnly: true }).map((entry) => entry.tool), ['tool05', 'tool03']);
+  assert.deepEqual(log.query({ limit: 10, tool: 'tool04' }).length, 1);
+});
+
+test('without a file recent entries are kept in memory', () => {
+  const log = new AuditLog({ maxEntries: 2 });
+  log.record(call('old', true, '2026-01-01T00:00:00.000Z'));
+  log.record(call('a'));
+  log.record(call('b'));
+
+  assert.equal(log.file, undefined);
+  assert.deepEqual(log.query({ limit: 10 }).map((entry) => entry.tool), ['b', 'a']);
+  assert.deepEqual(log.query({ limit: 10, since: '2026-01-02T00:00:00Z', type: 'access' }), []);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BackendRouter, BackendsConfigSchema } from '../src/backends.js';
+import { matchesGlob } from '../src/glob.js';
+
+const config = BackendsConfigSchema.parse({
+  backends: {
+    build: { url: 'http://build-mac.local:8080' },
+    demo: { url: 'http://demo-mac.local:8080' },
+  },
+  default: 'build',
+  routes: [
+    { app: 'com.raycast.*', backend: 'demo' },
+    { app: 'com.openai.chat', backend: 'demo' },
+  ],
+});
+
+test('glob patterns match bundle IDs case-insensitively', () => {
+  assert.equal(matchesGlob('com.raycast.*', 'com.raycast.macos'), true);
+  assert.equal(matchesGlob('com.raycast.*', 'com.raycastXmacos'), false);
+  assert.equal(matchesGlob('com.?pple.*', 'com.Apple.Terminal'), true);
+  assert.equal(matchesGlob('Terminal', 'com.apple.Terminal'), false);
+});
+
+test('calls route by explicit backend, then app pattern, then default', () => {
+  const router = BackendRouter.fromConfig(config);
+
+  assert.equal(router.route('build', 'com.raycast.macos').name, 'build');
+  assert.equal(router.route(undefined, 'com.raycast.macos').name, 'demo');
+  assert.equal(router.route(undefined, 'com.openai.chat').name, 'demo');
+  assert.equal(router.route(undefined, 'com.microsoft.VSCode').name, 'build');
+  assert.equal(router.route().name, 'build');
+  assert.equal(router.route().url, 'http://build-mac.local:8080');
+});
+
+test('unknown backends are rejected as invalid params', () => {
+  const router = BackendRouter.fromConfig(config);
+  assert.throws(
+    () => router.route('staging'),
+    (error: McpError) => error.code === ErrorCode.InvalidParams && /configured backends are build, demo/.test(error.message)
+  );
+});
+
+test('the first backend is the default when none is named', () => {
+  const router = BackendRouter.fromConfig(BackendsConfigSchema.parse({
+    backends: { a: { url: 'http://a:8080' }, b: { url: 'http://b:8080' } },
+  }));
+  assert.equal(router.default.name, 'a');
+});
+
+test('config errors point at the offending field', () => {
+  const result = BackendsConfigSchema.safeParse({
+    backends: { build: { url: 'not a url' } },
+    default: 'demo',
+    routes: [{ app: 'com.raycast.*', backend: 'demo' }],
+  });
+
+  assert.equal(result.success, false);
+  assert.deepEqual(
+    result.error!.issues.map((issue) => issue.path.join('.')).sort(),
+    ['backends.build.url', 'default', 'routes.0.backend']
+  );
+});
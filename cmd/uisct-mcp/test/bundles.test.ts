@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ElementSignature,
+  parseSignatureBundle,
+  SIGNATURE_BUNDLE_FORMAT,
+  SignatureBundle,
+  UIScoutClient,
+} from '../src/client.js';
+import { bundleChecksum, canonicalJson, planImport, SignatureBundleError } from '../src/bundles.js';
+import { signature as fixture } from './support/fixtures.js';
+
+function signature(appBundleId: string, elementType: 'reply' | 'input', stability: number, frameHash = 'w400-h300-x0-y0@sha1'): ElementSignature {
+  return fixture({ appBundleId, elementType, role: 'AXGroup', frameHash, stability });
+}
+
+function bundleOf(signatures: ElementSignature[], pinned = false): SignatureBundle {
+  const records = signatures.map((sig) => ({ signature: sig, pinned }));
+  return {
+    format: SIGNATURE_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    signatures: records,
+    checksum: bundleChecksum(SIGNATURE_BUNDLE_FORMAT, 1, records),
+  };
+}
+
+const everyApp = () => true;
+
+test('canonical JSON does not depend on key order', () => {
+  assert.equal(canonicalJson({ b: [1, { d: 2, c: 'x' }], a: null }), '{"a":null,"b":[1,{"c":"x","d":2}]}');
+  assert.equal(canonicalJson({ a: 1, b: 2 }), canonicalJson({ b: 2, a: 1 }));
+});
+
+test('bundles with a wrong checksum, format or version are rejected', () => {
+  const bundle = bundleOf([signature('com.example.app', 'reply', 0.8)]);
+  assert.equal(parseSignatureBundle(JSON.parse(JSON.stringify(bundle))).signatures.length, 1);
+
+  const tampered = structuredClone(bundle);
+  tampered.signatures[0].signature.stability = 1;
+  assert.throws(() => parseSignatureBundle(tampered), SignatureBundleError);
+  assert.throws(() => parseSignatureBundle({ ...bundle, format: 'other' }), /not a signature bundle/);
+  assert.throws(() => parseSignatureBundle({ ...bundle, version: 2 }), /version: Bundle versions above 1 need a newer uisct-mcp/);
+});
+
+test('conflict strategies decide what happens to stored signatures', () => {
+  const records = [signature('com.example.app', 'reply', 0.9), signature('com.example.app', 'input', 0.5), signature('com.other.app', 'reply', 0.7)]
+    .map((sig) => ({ signature: sig, pinned: true }));
+  const existing = [signature('com.example.app', 'reply', 0.8), signature('com.example.app', 'input', 0.6)];
+  const actions = (strategy: 'skip' | 'overwrite' | 'keep-higher-stability') =>
+    planImport(records, existing, strategy, everyApp, undefined).entries.map((entry) => entry.action);
+
+  assert.deepEqual(actions('skip'), ['skip', 'skip', 'create']);
+  assert.deepEqual(actions('overwrite'), ['overwrite', 'overwrite', 'create']);
+  assert.deepEqual(actions('keep-higher-stability'), ['overwrite', 'skip', 'create']);
+});
+
+test('filters, exclusions and duplicates are reported', () => {
+  const records = [
+    signature('com.example.app', 'reply', 0.9),
+    signature('com.example.app', 'input', 0.9),
+    signature('com.example.app', 'reply', 0.7),
+    signature('com.example.app', 'reply', 0.7, 'w10-h10-x0-y0@sha1'),
+    signature('com.apple.Terminal', 'reply', 0.9),
+  ].map((sig) => ({ signature: sig, pinned: false }));
+
+  const { entries, filtered } = planImport(
+    records, [], 'overwrite', everyApp, ['reply'],
+    (app) => (app === 'com.apple.Terminal' ? 'access denied' : undefined)
+  );
+  assert.equal(filtered, 1);
+  assert.deepEqual(entries.map((entry) => [entry.frameHash.slice(0, 3), entry.action, entry.reason]), [
+    ['w40', 'create', 'not stored yet'],
+    ['w40', 'skip', 'duplicate of an earlier record in the bundle'],
+    ['w10', 'create', 'not stored yet'],
+    ['w40', 'skip', 'access denied'],
+  ]);
+});
+
+test('importSignatures stores planned records, pins the pinned ones and keeps going after a failure', async () => {
+  const client = new UIScoutClient('http://127.0.0.1:9');
+  const learned: Array<[string, boolean, boolean]> = [];
+  client.listSignatures = async () => ({ signatures: [signature('com.example.app', 'reply', 0.8)], count: 1, skipped: 0 });
+  client.learnSignature = async (sig, pin = false, decay = false) => {
+    if (sig.appBundleId === 'com.broken.app') {
+      throw new Error('store is read-only');
+    }
+    learned.push([`${sig.appBundleId}/${sig.elementType}`, pin, decay]);
+    return { success: true, action: pin ? 'pinned' : 'stored', signatureId: sig.appBundleId };
+  };
+  const bundle = bundleOf([
+    signature('com.example.app', 'reply', 0.9),
+    signature('com.broken.app', 'reply', 0.9),
+    signature('com.example.app', 'input', 0.9),
+  ], true);
+
+  const dryRun = await client.importSignatures(bundle, { dryRun: true });
+  assert.deepEqual([dryRun.created, dryRun.skipped, dryRun.failed], [2, 1, 0]);
+  assert.equal(learned.length, 0);
+
+  const report = await client.importSignatures(bundle, { strategy: 'keep-higher-stability', apps: ['com.example.*', 'com.broken.app'] });
+  assert.deepEqual([report.created, report.overwritten, report.failed], [2, 1, 1]);
+  // Pinned records are stored before they are pinned
+  assert.deepEqual(learned, [
+    ['com.example.app/reply', false, false],
+    ['com.example.app/reply', true, false],
+    ['com.example.app/input', false, false],
+    ['com.example.app/input', true, false],
+  ]);
+  assert.deepEqual(report.entries.find((entry) => entry.applied === false)?.error, 'store is read-only');
+
+  const filtered = await client.importSignatures(bundle, { dryRun: true, apps: ['com.other.*'] });
+  assert.deepEqual([filtered.total, filtered.filtered, filtered.entries.length], [3, 3, 0]);
+});
@@ -0,0 +1,167 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ObservationEvent, UIScoutClient, UIScoutClientError } from '../src/client.js';
+import { SSETruncatedError } from '../src/sse.js';
+import { signature as fixture } from './support/fixtures.js';
+
+const status = {
+  permissions: { accessibility: true, screenRecording: true, needsPrompt: [], canOperate: true },
+  environment: { isInTerminal: true, isInXcode: false, isSandboxed: false, bundleIdentifier: 'test', description: 'Test' },
+  store: { signatureCount: 0, evidenceCount: 0, averageStability: 0, pinnedSignatureCount: 0 },
+  canOperate: true,
+};
+
+// Scripted responses per path; each request consumes the next one
+let script: Record<string, Array<(res: http.ServerResponse, req: http.IncomingMessage) => void>> = {};
+const hits: Record<string, number> = {};
+let server: http.Server;
+let url: string;
+
+const reply = (code: number, body: unknown = {}) => (res: http.ServerResponse) => {
+  res.writeHead(code, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+const hang = () => () => {};
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const path = req.url!.split('?')[0];
+    hits[path] = (hits[path] ?? 0) + 1;
+    const next = script[path]?.shift();
+    (next ?? reply(404))(res, req);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function reset(next: typeof script): void {
+  script = next;
+  for (const key of Object.keys(hits)) delete hits[key];
+}
+
+const fastRetry = { retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+test('idempotent calls retry on 503 and succeed', async () => {
+  reset({ '/api/v1/status': [reply(503), reply(503), reply(200, status)] });
+  const client = new UIScoutClient(url, { retry: fastRetry });
+
+  const result = await client.getStatus();
+  assert.equal(result.canOperate, true);
+  assert.equal(hits['/api/v1/status'], 3);
+});
+
+test('retries give up after the configured attempts', async () => {
+  reset({ '/api/v1/signatures': [reply(503), reply(503), reply(503), reply(200, { signatures: [], count: 0 })] });
+  const client = new UIScoutClient(url, { retry: fastRetry });
+
+  await assert.rejects(client.listSignatures(), (error: UIScoutClientError) => error.statusCode === 503);
+  assert.equal(hits['/api/v1/signatures'], 3);
+});
+
+test('client errors and non-idempotent calls are not retried', async () => {
+  reset({
+    '/api/v1/status': [reply(400, { error: true, reason: 'bad' }), reply(200, status)],
+    '/api/v1/find': [reply(503), reply(503)],
+  });
+  const client = new UIScoutClient(url, { retry: fastRetry });
+
+  await assert.rejects(client.getStatus(), (error: UIScoutClientError) => error.message === 'bad');
+  await assert.rejects(client.findElement('com.example.app', 'reply'), (error: UIScoutClientError) => error.statusCode === 503);
+  assert.equal(hits['/api/v1/status'], 1);
+  assert.equal(hits['/api/v1/find'], 1);
+});
+
+test('per-endpoint timeouts apply', async () => {
+  reset({ '/api/v1/find': [hang()] });
+  const client = new UIScoutClient(url, { timeouts: { find: 50 } });
+
+  await assert.rejects(
+    client.findElement('com.example.app', 'reply'),
+    (error: UIScoutClientError) => error.kind === 'timeout' && error.endpoint === 'POST /find'
+  );
+});
+
+test('an AbortSignal cancels the HTTP call', async () => {
+  reset({ '/api/v1/send': [hang()] });
+  const client = new UIScoutClient(url);
+  const controller = new AbortController();
+
+  const pending = client.sendMessage('com.example.app', 'hello', undefined, controller.signal);
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(pending, (error: UIScoutClientError) => error.kind === 'aborted');
+});
+
+const signature = fixture();
+
+const event = (notification: string) => JSON.stringify({ type: 'event', timestamp: 1, notification, appBundleId: 'com.example.app' });
+
+// Write an event stream body, then end it or cut the connection
+const stream = (body: string, cut = false) => (res: http.ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  res.write(body);
+  setTimeout(() => (cut ? res.destroy() : res.end()), 10);
+};
+
+async function collect(events: AsyncGenerator<ObservationEvent>): Promise<ObservationEvent[]> {
+  const collected: ObservationEvent[] = [];
+  for await (const e of events) {
+    collected.push(e);
+  }
+  return collected;
+}
+
+test('a dropped observe stream resumes with Last-Event-ID', async () => {
+  let resumedFrom: string | undefined;
+  reset({
+    '/api/v1/observe': [
+      stream(`retry: 1\r\nid: 1\r\ndata: ${event('first')}\r\n\r\ndata: {"type":`, true),
+      (res, req) => {
+        resumedFrom = req.headers['last-event-id'] as string;
+        stream(`: heartbeat\n\nid: 2\ndata: ${event('second')}\n\ndata: {"type":"complete","total_events":2}\n\n`)(res);
+      },
+    ],
+  });
+  const client = new UIScoutClient(url, { retry: fastRetry });
+
+  const events = await collect(client.observeElement('com.example.app', signature, 5));
+
+  assert.equal(resumedFrom, '1');
+  assert.deepEqual(events.map((e) => e.type === 'event' ? e.notification : e.type), ['first', 'second', 'complete']);
+  assert.equal(hits['/api/v1/observe'], 2);
+});
+
+test('a truncated observe stream without event IDs raises a typed error', async () => {
+  reset({ '/api/v1/observe': [stream(`data: ${event('first')}\n\ndata: ${event('second')}`)] });
+  const client = new UIScoutClient(url, { retry: fastRetry });
+
+  const events: ObservationEvent[] = [];
+  await assert.rejects(
+    (async () => {
+      for await (const e of client.observeElement('com.example.app', signature, 5)) {
+        events.push(e);
+      }
+    })(),
+    (error: SSETruncatedError) => error instanceof SSETruncatedError && error.pending.includes('second')
+  );
+  assert.equal(events.length, 1);
+  assert.equal(hits['/api/v1/observe'], 1);
+});
+
+test('malformed observe events are skipped and reported', async () => {
+  reset({ '/api/v1/observe': [stream(`data: not json\n\ndata: {"type":"event"}\n\ndata: ${event('kept')}\n\n`)] });
+  const client = new UIScoutClient(url);
+  const skipped: string[] = [];
+
+  const events = await collect(client.observeElement('com.example.app', signature, 5, undefined, undefined, (reason) => skipped.push(reason)));
+  assert.deepEqual(events.map((e) => (e.type === 'event' ? e.notification : e.type)), ['kept']);
+  assert.equal(skipped.length, 2);
+  assert.match(skipped[0], /not valid JSON/);
+});
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObservationEvent, UIScoutClientError } from '../src/client.js';
+import { waitForReplyComplete } from '../src/completion.js';
+import { clientWith, signature as fixture } from './support/fixtures.js';
+
+const signature = fixture();
+
+// A client whose snapshots report the given text lengths in turn (repeating
+// the last one) and whose observe stream posts `events` notifications
+function stubClient(lengths: number[], events = 0) {
+  let calls = 0;
+  const client = clientWith({
+    async* observeElement(): AsyncGenerator<ObservationEvent> {
+      for (let i = 0; i < events; i++) {
+        yield { type: 'event', timestamp: Date.now() / 1000, notification: 'kAXValueChangedNotification', appBundleId: 'com.example.app' };
+      }
+    },
+    async captureSnapshot(_app: string, _sig: unknown, signal?: AbortSignal) {
+      if (signal?.aborted) {
+        throw new UIScoutClientError('Request was cancelled', undefined, undefined, 'aborted');
+      }
+      const textLength = lengths[Math.min(calls++, lengths.length - 1)];
+      return {
+        success: true,
+        snapshot: {
+          elementId: 'reply',
+          role: 'Group',
+          frame: { x: 0, y: 0, width: 400, height: 300 },
+          value: 'x'.repeat(textLength),
+          childCount: 1,
+          textLength,
+          timestamp: Date.now() / 1000,
+        },
+      };
+    },
+  });
+  return { client, calls: () => calls };
+}
+
+test('a reply that stops growing completes after the quiet period', async () => {
+  const stub = stubClient([0, 10, 25, 40]);
+  const result = await waitForReplyComplete(stub.client, 'com.example.app', signature, {
+    quietPeriodMs: 60,
+    pollIntervalMs: 10,
+    timeoutMs: 2000,
+  });
+
+  assert.equal(result.completed, true);
+  assert.equal(result.reason, 'quiet');
+  assert.deepEqual(result.timeline.map((p) => p.textLength), [0, 10, 25, 40]);
+  assert.equal(result.timeline[0].trigger, 'initial');
+  assert.equal(result.changes, 3);
+  assert.equal(result.snapshot?.textLength, 40);
+});
+
+test('the hard timeout stops a reply that keeps changing', async () => {
+  const lengths = Array.from({ length: 1000 }, (_, i) => i);
+  const result = await waitForReplyComplete(stubClient(lengths).client, 'com.example.app', signature, {
+    quietPeriodMs: 100,
+    pollIntervalMs: 10,
+    timeoutMs: 150,
+  });
+
+  assert.equal(result.completed, false);
+  assert.equal(result.reason, 'timeout');
+  assert.ok(result.changes > 2);
+});
+
+test('an unchanged reply is not complete until it changes', async () => {
+  const waiting = await waitForReplyComplete(stubClient([5]).client, 'com.example.app', signature, {
+    quietPeriodMs: 20,
+    pollIntervalMs: 10,
+    timeoutMs: 100,
+  });
+  assert.equal(waiting.reason, 'timeout');
+  assert.equal(waiting.changes, 0);
+
+  const settled = await waitForReplyComplete(stubClient([5]).client, 'com.example.app', signature, {
+    quietPeriodMs: 20,
+    pollIntervalMs: 10,
+    timeoutMs: 1000,
+    requireChange: false,
+  });
+  assert.equal(settled.reason, 'quiet');
+});
+
+test('accessibility events trigger snapshots', async () => {
+  const result = await waitForReplyComplete(stubClient([0, 10], 1).client, 'com.example.app', signature, {
+    quietPeriodMs: 50,
+    pollIntervalMs: 1000,
+    timeoutMs: 3000,
+  });
+
+  assert.equal(result.eventsObserved, 1);
+  assert.equal(result.timeline[1].trigger, 'event');
+  assert.equal(result.completed, true);
+});
+
+test('cancelling the signal stops the wait', async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 30);
+
+  await assert.rejects(
+    waitForReplyComplete(stubClient([0]).client, 'com.example.app', signature, {
+      pollIntervalMs: 10,
+      timeoutMs: 5000,
+      signal: controller.signal,
+    }),
+    (error: UIScoutClientError) => error.kind === 'aborted'
+  );
+});
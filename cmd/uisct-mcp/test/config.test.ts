@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ConfigError, httpOptionsFromConfig, loadConfig, serverOptionsFromConfig, serviceUrlFrom, serviceUrlOf } from '../src/config.js';
+
+const repoConfig = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../config');
+const noUserConfig = path.join(os.tmpdir(), 'ui-scout-no-such-dir');
+
+function tempDir(): string {
+  return mkdtempSync(path.join(os.tmpdir(), 'ui-scout-config-'));
+}
+
+function writeJson(dir: string, name: string, value: unknown): string {
+  const file = path.join(dir, name);
+  writeFileSync(file, typeof value === 'string' ? value : JSON.stringify(value));
+  return file;
+}
+
+test('defaults match the service and config/ui-scout.json', () => {
+  const config = loadConfig({ env: {}, userConfigDir: noUserConfig });
+
+  // The address the service listens on (svc/http/main.swift)
+  assert.equal(serviceUrlOf(config), 'http://127.0.0.1:8080');
+  assert.equal(config.confidence.high_confidence_threshold, 0.8);
+  assert.equal(config.logging.max_file_size, 10 * 1024 * 1024);
+  assert.deepEqual(serverOptionsFromConfig(config).audit, {
+    file: path.join(noUserConfig, 'audit.jsonl'),
+    maxFileSize: 10 * 1024 * 1024,
+    maxFiles: 5,
+  });
+  assert.equal(serverOptionsFromConfig(config).bundlesDir, path.join(noUserConfig, 'bundles'));
+});
+
+test('the shipped config files are valid and supply policy, timeouts and logging', () => {
+  const production = serverOptionsFromConfig(loadConfig({
+    configFile: path.join(repoConfig, 'ui-scout.json'),
+    env: {},
+    userConfigDir: noUserConfig,
+  }));
+  // server.port in the file is the service's own setting, not where this wrapper connects
+  assert.equal(production.serviceUrl, 'http://127.0.0.1:8080');
+  assert.equal(production.clientOptions?.policy?.minConfidence, 0.8);
+  assert.equal(production.debug, false);
+  assert.deepEqual(production.access, { allowed: [], blocked: ['Keychain Access', 'Terminal'] });
+  assert.equal(production.approval?.required, true);
+
+  const development = loadConfig({ configFile: path.join(repoConfig, 'development.json'), env: {}, userConfigDir: noUserConfig });
+  const options = serverOptionsFromConfig(development);
+  assert.equal(options.clientOptions?.policy?.minConfidence, 0.7);
+  assert.equal(options.clientOptions?.timeouts?.status, 10000);
+  assert.equal(options.debug, true);
+  assert.equal(development.logging.max_file_size, 5 * 1024 * 1024);
+  assert.deepEqual(development.security.blocked_applications, ['Keychain Access', 'Terminal', 'Activity Monitor']);
+});
+
+test('layers apply in order: user dir, --config, environment, flags', () => {
+  const userDir = tempDir();
+  writeJson(userDir, 'config.json', { logging: { level: 'warn' }, mcp: { service_url: 'http://127.0.0.1:1111', retries: 4 } });
+  const configFile = writeJson(tempDir(), 'team.json', { mcp: { service_url: 'http://build-mac.local:2222', retries: 5 } });
+
+  const fromFiles = loadConfig({ configFile, env: {}, userConfigDir: userDir });
+  assert.equal(serviceUrlOf(fromFiles), 'http://build-mac.local:2222');
+  assert.equal(fromFiles.logging.level, 'warn');
+  assert.equal(fromFiles.mcp.retries, 5);
+
+  const withEnv = loadConfig({ configFile, env: { UISCOUT_PORT: '3333', UISCOUT_RETRIES: '1' }, userConfigDir: userDir });
+  assert.equal(serviceUrlOf(withEnv), 'http://127.0.0.1:3333');
+  assert.equal(withEnv.mcp.retries, 1);
+
+  const withFlags = loadConfig({
+    configFile,
+    env: { UISCOUT_PORT: '3333' },
+    userConfigDir: userDir,
+    flags: { mcp: { service_url: serviceUrlFrom('build-mac.local', '4444'), retries: undefined } },
+  });
+  assert.equal(serviceUrlOf(withFlags), 'http://build-mac.local:4444');
+  assert.equal(withFlags.mcp.retries, 5);
+});
+
+test('the service address comes from a URL or from host and port', () => {
+  const url = { UI_SCOUT_URL: 'http://demo-mac.local:3847', UISCOUT_HOST: 'ignored.local' };
+  assert.equal(serviceUrlOf(loadConfig({ env: url, userConfigDir: noUserConfig })), 'http://demo-mac.local:3847');
+  assert.equal(serviceUrlOf(loadConfig({ env: { UISCOUT_HOST: 'demo-mac.local' }, userConfigDir: noUserConfig })), 'http://demo-mac.local:8080');
+  assert.equal(serviceUrlFrom(undefined, undefined), undefined);
+});
+
+test('invalid values are reported with their source and field', () => {
+  const configFile = writeJson(tempDir(), 'bad.json', {
+    logging: { max_file_size: 'huge' },
+    mcp: { service_url: 'not a url', timeouts: { fnd: 100 }, policy: { max_peek_ms: 1.5 } },
+  });
+
+  assert.throws(
+    () => loadConfig({ configFile, env: {}, userConfigDir: noUserConfig }),
+    (error: ConfigError) => error instanceof ConfigError
+      && error.source === configFile
+      && /mcp\.service_url: Invalid url/.test(error.message)
+      && /mcp\.policy\.max_peek_ms: Expected integer/.test(error.message)
+      && /logging\.max_file_size: Expected a size/.test(error.message)
+      && /mcp\.timeouts: Unrecognized key/.test(error.message)
+  );
+
+  assert.throws(
+    () => loadConfig({ env: { UISCOUT_MIN_CONFIDENCE: 'high' }, userConfigDir: noUserConfig }),
+    (error: ConfigError) => error.source === 'environment' && /confidence\.high_confidence_threshold/.test(error.message)
+  );
+});
+
+test('the HTTP transport takes its token from the environment', () => {
+  const config = loadConfig({
+    env: { UISCOUT_MCP_TRANSPORT: 'http', UISCOUT_MCP_TOKEN: 'a-long-enough-token' },
+    flags: { mcp: { http: { port: 4000, idle_timeout_minutes: 5 } } },
+    userConfigDir: noUserConfig,
+  });
+  assert.equal(config.mcp.transport, 'http');
+  assert.deepEqual(httpOptionsFromConfig(config), {
+    host: undefined,
+    port: 4000,
+    path: undefined,
+    token: 'a-long-enough-token',
+    maxSessions: undefined,
+    idleTimeoutMs: 5 * 60 * 1000,
+  });
+
+  assert.throws(
+    () => loadConfig({ env: { UISCOUT_MCP_TOKEN: 'short' }, userConfigDir: noUserConfig }),
+    /environment:\n  mcp\.http\.token: Use a token of at least 16 characters/
+  );
+});
+
+test('thresholds are checked against each other after merging', () => {
+  assert.throws(
+    () => loadConfig({ env: { UISCOUT_MIN_CONFIDENCE: '0.2' }, userConfigDir: noUserConfig }),
+    /confidence\.minimum_threshold: Must not be above/
+  );
+});
+
+test('unreadable config files fail clearly', () => {
+  assert.throws(
+    () => loadConfig({ configFile: path.join(noUserConfig, 'missing.json'), env: {}, userConfigDir: noUserConfig }),
+    /Cannot read config file .*missing\.json/
+  );
+  const broken = writeJson(tempDir(), 'broken.json', '{ "server": ');
+  assert.throws(
+    () => loadConfig({ configFile: broken, env: {}, userConfigDir: noUserConfig }),
+    /broken\.json is not valid JSON/
+  );
+});
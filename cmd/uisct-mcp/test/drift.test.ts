@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElementSignature } from '../src/client.js';
+import { COMPARED_FIELDS, compareSignatures } from '../src/drift.js';
+import { signature } from './support/fixtures.js';
+
+const stored = signature({
+  role: 'AXScrollArea',
+  subroles: [],
+  frameHash: 'w400-h300-x0-y0@sha1',
+  pathHint: ['AXWindow[0]', 'AXSplitGroup[0]', 'AXScrollArea[1]'],
+  siblingRoles: ['AXGroup', 'AXTextArea'],
+  readOnly: true,
+  scrollable: true,
+  attrs: { AXDescription: 'Messages' },
+  stability: 0.9,
+});
+
+function changed(fields: Partial<ElementSignature>): ElementSignature {
+  return { ...stored, ...fields };
+}
+
+test('identical signatures have no likely causes', () => {
+  const comparison = compareSignatures(stored, changed({ lastVerifiedAt: 100 }));
+
+  assert.equal(comparison.identical, true);
+  assert.equal(comparison.similarity, 1);
+  assert.deepEqual(comparison.diffs.map((diff) => diff.field), [...COMPARED_FIELDS]);
+  assert.deepEqual(comparison.likelyCauses, []);
+});
+
+test('differences are ranked by how likely they break a match', () => {
+  const comparison = compareSignatures(stored, changed({
+    role: 'AXGroup',
+    pathHint: ['AXWindow[0]', 'AXGroup[0]', 'AXScrollArea[1]'],
+    siblingRoles: ['AXGroup', 'AXButton'],
+    attrs: { AXDescription: 'Chat', AXIdentifier: 'chat' },
+    stability: 0.4,
+  }));
+
+  assert.equal(comparison.identical, false);
+  assert.deepEqual(comparison.likelyCauses.map((cause) => [cause.field, cause.impact]), [
+    ['role', 1],
+    ['pathHint', 0.53],
+    ['attrs', 0.25],
+    ['siblingRoles', 0.23],
+    ['stability', 0.1],
+  ]);
+  assert.equal(comparison.likelyCauses[1].detail, 'accessibility path diverges at step 2: AXSplitGroup[0] → AXGroup[0]');
+
+  const siblings = comparison.diffs.find((diff) => diff.field === 'siblingRoles')!;
+  assert.deepEqual([siblings.added, siblings.removed], [['AXButton'], ['AXTextArea']]);
+  assert.equal(comparison.diffs.find((diff) => diff.field === 'attrs')!.detail, 'attributes: added AXIdentifier; changed AXDescription');
+  assert.ok(comparison.similarity < 0.6);
+});
+
+test('readable frame hashes tell a move from a resize', () => {
+  const moved = compareSignatures(stored, changed({ frameHash: 'w400-h300-x20-y0@sha1' })).likelyCauses[0];
+  assert.deepEqual([moved.impact, moved.detail], [0.25, 'frame moved from (0, 0) to (20, 0)']);
+
+  const resized = compareSignatures(stored, changed({ frameHash: 'w400-h500-x0-y0@sha1' })).likelyCauses[0];
+  assert.deepEqual([resized.impact, resized.detail], [0.5, 'frame resized from 400x300 to 400x500']);
+
+  const hashed = compareSignatures(changed({ frameHash: '1a2b3c4d@sha1' }), changed({ frameHash: '5e6f7a8b@sha1' })).likelyCauses[0];
+  assert.equal(hashed.detail, 'frame hash changed: the element moved or was resized');
+});
+
+test('reordered lists and risen stability count as minor changes', () => {
+  const comparison = compareSignatures(stored, changed({ siblingRoles: ['AXTextArea', 'AXGroup'], stability: 0.95 }));
+
+  assert.deepEqual(comparison.likelyCauses.map((cause) => [cause.field, cause.impact]), [
+    ['siblingRoles', 0.03],
+    ['stability', 0],
+  ]);
+});
+
+test('comparing across apps or element types is flagged', () => {
+  const comparison = compareSignatures(stored, changed({ appBundleId: 'com.other.app', elementType: 'input' }));
+  assert.equal(comparison.warnings.length, 2);
+  assert.match(comparison.warnings[0], /different apps/);
+});
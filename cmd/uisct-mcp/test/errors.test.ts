@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutClientError } from '../src/client.js';
+import { toMcpError, UIScoutErrorCode } from '../src/errors.js';
+import { SSETruncatedError } from '../src/sse.js';
+
+test('MCP errors pass through unchanged', () => {
+  const error = new McpError(ErrorCode.InvalidParams, 'bad');
+  assert.equal(toMcpError(error, 'findElement'), error);
+});
+
+test('4xx and 5xx responses map to distinct codes', () => {
+  const rejected = toMcpError(
+    new UIScoutClientError('Invalid element type', 400, { error: true, reason: 'Invalid element type' }, 'http', 'POST /find'),
+    'findElement'
+  );
+  assert.equal(rejected.code, UIScoutErrorCode.ServiceRejected);
+  assert.match(rejected.message, /HTTP 400 for POST \/find: Invalid element type/);
+  assert.deepEqual(rejected.data, {
+    tool: 'findElement',
+    kind: 'http',
+    status: 400,
+    endpoint: 'POST /find',
+    body: { error: true, reason: 'Invalid element type' },
+  });
+
+  const failed = toMcpError(new UIScoutClientError('Internal server error', 500, undefined, 'http', 'GET /status'), 'getStatus');
+  assert.equal(failed.code, UIScoutErrorCode.ServiceError);
+});
+
+test('timeouts and unreachable services map to distinct codes', () => {
+  const timeout = toMcpError(new UIScoutClientError('slow', undefined, undefined, 'timeout', 'POST /observe'), 'observeElement');
+  assert.equal(timeout.code, UIScoutErrorCode.ServiceTimeout);
+
+  const unreachable = toMcpError(new UIScoutClientError('down', undefined, undefined, 'network', 'GET /status'), 'getStatus');
+  assert.equal(unreachable.code, UIScoutErrorCode.ServiceUnavailable);
+});
+
+test('unexpected service responses are internal errors', () => {
+  const parsed = z.object({ count: z.number() }).safeParse({ count: 'many' });
+  assert.ok(!parsed.success);
+
+  const error = toMcpError(parsed.error, 'listSignatures');
+  assert.equal(error.code, ErrorCode.InternalError);
+  assert.deepEqual(error.data, {
+    tool: 'listSignatures',
+    issues: [{ field: 'count', message: 'Expected number, received string' }],
+  });
+});
+
+test('truncated event streams map to service errors', () => {
+  const error = toMcpError(new SSETruncatedError('Event stream ended in the middle of an event', '4', 'data: {'), 'observeElement');
+  assert.equal(error.code, UIScoutErrorCode.ServiceError);
+  assert.deepEqual(error.data, { tool: 'observeElement', lastEventId: '4' });
+});
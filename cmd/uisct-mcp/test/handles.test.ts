@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignatureRegistry } from '../src/handles.js';
+import { signature } from './support/fixtures.js';
+
+test('the same element keeps its handle and picks up newer data', () => {
+  const registry = new SignatureRegistry();
+  const first = registry.register(signature(), 'findElement');
+  const second = registry.register(signature({ stability: 0.9 }), 'listSignatures');
+
+  assert.equal(first, 'sig_1');
+  assert.equal(second, first);
+  assert.equal(registry.resolve(first)?.stability, 0.9);
+  assert.equal(registry.register(signature({ elementType: 'input' }), 'findElement'), 'sig_2');
+});
+
+test('unused handles expire after the TTL', (t) => {
+  t.mock.timers.enable({ apis: ['Date'] });
+  const registry = new SignatureRegistry({ ttlMs: 1000 });
+  const handle = registry.register(signature(), 'findElement');
+
+  t.mock.timers.tick(500);
+  assert.ok(registry.resolve(handle));
+  t.mock.timers.tick(999);
+  assert.ok(registry.resolve(handle), 'resolving refreshes the TTL');
+  t.mock.timers.tick(1001);
+  assert.equal(registry.resolve(handle), undefined);
+});
+
+test('the least recently used handle is dropped when full', () => {
+  const registry = new SignatureRegistry({ maxEntries: 2 });
+  const a = registry.register(signature({ frameHash: 'a' }), 'findElement');
+  registry.register(signature({ frameHash: 'b' }), 'findElement');
+  registry.register(signature({ frameHash: 'c' }), 'findElement');
+
+  assert.equal(registry.resolve(a), undefined);
+  assert.equal(registry.list().length, 2);
+});
+
+test('clear removes selected or all handles', () => {
+  const registry = new SignatureRegistry();
+  const a = registry.register(signature({ frameHash: 'a' }), 'findElement');
+  registry.register(signature({ frameHash: 'b' }), 'findElement');
+
+  assert.equal(registry.clear([a, 'sig_99']), 1);
+  assert.equal(registry.clear(), 1);
+  assert.equal(registry.list().length, 0);
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutClientError } from '../src/client.js';
+import { HealthMonitor } from '../src/health.js';
+import { clientWith } from './support/fixtures.js';
+
+function stubClient(getHealth: () => Promise<{ status: string; timestamp: number }>) {
+  let calls = 0;
+  const client = clientWith({
+    getHealth: async () => {
+      calls++;
+      return getHealth();
+    },
+  });
+  return { client, calls: () => calls };
+}
+
+const refusedError = () => new UIScoutClientError(
+  'No response from UIScout service (ECONNREFUSED). Is it running?',
+  undefined,
+  undefined,
+  'network'
+);
+const refused = () => Promise.reject(refusedError());
+
+test('a healthy probe is cached for the TTL', async () => {
+  const stub = stubClient(async () => ({ status: 'ok', timestamp: 0 }));
+  const health = new HealthMonitor(stub.client, { ttlMs: 60000 });
+
+  await health.ensureAvailable();
+  await health.ensureAvailable();
+
+  assert.equal(health.current.state, 'connected');
+  assert.equal(stub.calls(), 1);
+});
+
+test('a known-down service fails fast without re-probing', async () => {
+  const stub = stubClient(refused);
+  const health = new HealthMonitor(stub.client, { ttlMs: 60000 });
+
+  await assert.rejects(health.ensureAvailable(), McpError);
+  await assert.rejects(health.ensureAvailable(), /ECONNREFUSED/);
+
+  assert.equal(health.current.state, 'down');
+  assert.equal(stub.calls(), 1);
+});
+
+test('non-ok status and HTTP errors mark the service degraded', async () => {
+  const degraded = new HealthMonitor(stubClient(async () => ({ status: 'starting', timestamp: 0 })).client);
+  await degraded.ensureAvailable();
+  assert.equal(degraded.current.state, 'degraded');
+
+  const httpError = new UIScoutClientError('Service Unavailable', 503, undefined, 'http', 'GET /health');
+  const failing = new HealthMonitor(stubClient(() => Promise.reject(httpError)).client);
+  await failing.ensureAvailable();
+  assert.equal(failing.current.state, 'degraded');
+  assert.match(failing.current.reason!, /503/);
+});
+
+test('tool call outcomes update the cached state', async () => {
+  const stub = stubClient(async () => ({ status: 'ok', timestamp: 0 }));
+  const health = new HealthMonitor(stub.client, { ttlMs: 60000 });
+
+  health.recordFailure(new UIScoutClientError('Not Found', 404, undefined, 'http'));
+  assert.equal(health.current.state, 'unknown');
+
+  health.recordFailure(refusedError());
+  assert.equal(health.current.state, 'down');
+  await assert.rejects(health.ensureAvailable());
+
+  health.recordSuccess();
+  assert.equal(health.current.state, 'connected');
+  assert.equal(stub.calls(), 0);
+});
@@ -0,0 +1,853 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, symlinkSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  CallToolResultSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  LoggingMessageNotificationSchema,
+  McpError,
+  ReadResourceResult,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutClient, UIScoutClientError } from '../src/client.js';
+import { UIScoutErrorCode } from '../src/errors.js';
+import { connectHarness, Harness } from './support/harness.js';
+import { startSimulator, Simulator } from './support/simulator.js';
+
+// Decode the JSON text of a resource read
+function jsonOf(result: ReadResourceResult): any {
+  const [content] = result.contents;
+  assert.ok('text' in content, 'expected a text resource');
+  return JSON.parse(content.text);
+}
+
+describe('MCP server against the simulator', () => {
+  let simulator: Simulator;
+  let harness: Harness;
+  let bundlesDir: string;
+
+  before(async () => {
+    simulator = await startSimulator();
+    bundlesDir = mkdtempSync(path.join(os.tmpdir(), 'ui-scout-bundles-'));
+    harness = await connectHarness({ serviceUrl: simulator.url, bundlesDir });
+  });
+
+  after(async () => {
+    await harness.close();
+    await simulator.stop();
+  });
+
+  test('advertises every tool', async () => {
+    const { tools } = await harness.client.listTools();
+    assert.deepEqual(tools.map((t) => t.name).sort(), [
+      'afterSendDiff',
+      'askApp',
+      'captureSnapshot',
+      'clearHandles',
+      'compareSignatures',
+      'exportSignatures',
+      'findElement',
+      'getAuditLog',
+      'getStatus',
+      'importSignatures',
+      'learnSignature',
+      'listHandles',
+      'listSignatures',
+      'observeElement',
+      'pollObservation',
+      'sendMessage',
+      'startObservation',
+      'stopObservation',
+      'waitForReplyComplete',
+    ]);
+  });
+
+  test('findElement summarizes the result and hands out a handle', async () => {
+    const result = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.confidence, 0.87);
+    assert.deepEqual(result.element, { type: 'reply', role: 'Group', app: 'com.example.app', stability: 0.8 });
+    assert.equal(result.detection.method, 'passive');
+    assert.match(result.handle, /^sig_\d+$/);
+    assert.equal(result.signature.frameHash, 'w400-h300-x0-y0@sha1');
+    assert.match(result.summary, /Successfully found reply element with 87% confidence/);
+  });
+
+  test('afterSendDiff accepts a handle and reports changes', async () => {
+    const found = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+    const result = await harness.callTool('afterSendDiff', { appBundleId: 'com.example.app', preSignature: found.handle });
+
+    assert.equal(result.success, true);
+    assert.equal(result.changesDetected, true);
+    assert.equal(result.detection.method, 'ocr');
+    assert.equal(result.handle, found.handle);
+  });
+
+  test('observeElement parses the SSE stream into events', async () => {
+    const found = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+    const result = await harness.callTool('observeElement', {
+      appBundleId: 'com.example.app',
+      signature: found.signature,
+      durationSeconds: 1,
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.eventsCollected, 2);
+    assert.deepEqual(
+      result.events.map((e: any) => e.notification),
+      ['kAXChildrenChangedNotification', 'kAXValueChangedNotification']
+    );
+    assert.match(result.summary, /Observed 2 events over 1 seconds/);
+  });
+
+  test('observeElement streams events as progress notifications', async () => {
+    const updates: Array<{ progress: number; message?: string }> = [];
+    const result = await harness.client.callTool(
+      {
+        name: 'observeElement',
+        arguments: { appBundleId: 'com.example.app', signature: 'com.example.app-reply', durationSeconds: 1 },
+      },
+      CallToolResultSchema,
+      { onprogress: (update) => updates.push(update) }
+    );
+
+    assert.deepEqual(updates.map((u) => u.progress), [1, 2]);
+    assert.match(updates[0].message!, /kAXChildrenChangedNotification at \+[\d.]+s of 1s/);
+    const content = result.content as Array<{ type: string; text: string }>;
+    assert.equal(JSON.parse(content[0].text).eventsCollected, 2);
+  });
+
+  test('observeElement falls back to debug log messages without a progress token', async () => {
+    const messages: Array<{ level: string }> = [];
+    harness.client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params);
+    });
+    const observe = () => harness.callTool('observeElement', {
+      appBundleId: 'com.example.app',
+      signature: 'com.example.app-reply',
+      durationSeconds: 1,
+    });
+    try {
+      await observe();
+      assert.equal(messages.length, 2);
+      assert.deepEqual(Object.keys(messages[0]).sort(), ['data', 'level', 'logger']);
+      assert.equal(messages[0].level, 'debug');
+
+      // The level the client set is respected
+      await harness.client.setLoggingLevel('info');
+      await observe();
+      assert.equal(messages.length, 2);
+    } finally {
+      await harness.client.setLoggingLevel('debug');
+      harness.client.removeNotificationHandler('notifications/message');
+    }
+  });
+
+  test('captureSnapshot resolves a stored signature ID', async () => {
+    const result = await harness.callTool('captureSnapshot', {
+      appBundleId: 'com.example.app',
+      signature: 'com.example.app-reply',
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.snapshot.childCount, 5);
+    assert.match(result.summary, /Group with 5 children, 350 chars/);
+  });
+
+  test('sendMessage reports each step', async () => {
+    const result = await harness.callTool('sendMessage', { appBundleId: 'com.example.app', text: 'hello' });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.steps, { valueSet: true, sendPressed: true, inputConfirmed: false });
+    assert.equal(result.diff.confidence, 0.88);
+    assert.match(result.summary, /pressed send; reply diff confidence 88%/);
+  });
+
+  test('learnSignature accepts an app/type reference', async () => {
+    const result = await harness.callTool('learnSignature', {
+      signature: { appBundleId: 'com.example.app', elementType: 'reply' },
+      pin: true,
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.signatureId, 'com.example.app-reply');
+    assert.match(result.summary, /for com.example.app\/reply/);
+  });
+
+  test('getStatus passes the service status through', async () => {
+    const result = await harness.callTool('getStatus');
+
+    assert.equal(result.canOperate, true);
+    assert.equal(result.store.signatureCount, 1);
+    assert.match(result.summary, /UIScout is operational. 1 signatures stored./);
+  });
+
+  test('listSignatures groups by app', async () => {
+    const result = await harness.callTool('listSignatures', { appBundleId: 'com.example.app' });
+
+    assert.equal(result.total, 1);
+    assert.equal(result.skipped, 0);
+    assert.equal(result.byApplication['com.example.app'][0].role, 'Group');
+    assert.match(result.byApplication['com.example.app'][0].handle, /^sig_\d+$/);
+  });
+
+  test('exportSignatures and importSignatures round-trip a bundle file', async () => {
+    const inline = await harness.callTool('exportSignatures', { appBundleId: 'com.example.app' });
+    assert.equal(inline.count, 1);
+    assert.equal(inline.bundle.format, 'uiscout-signature-bundle');
+    assert.equal(inline.bundle.signatures[0].pinned, false);
+    assert.match(inline.summary, /^Exported 1 signatures for com\.example\.app; pin state was not recorded$/);
+
+    // The simulator already stores the signature, so the default strategy skips it
+    const dryRun = await harness.callTool('importSignatures', { bundle: inline.bundle, dryRun: true });
+    assert.deepEqual([dryRun.dryRun, dryRun.created, dryRun.skipped, dryRun.changed], [true, 0, 1, []]);
+    assert.equal(dryRun.entries[0].reason, 'already stored');
+
+    // File names are relative to the bundle directory
+    const file = 'team/signatures.json';
+    const exported = await harness.callTool('exportSignatures', { file, pinned: true });
+    assert.equal(exported.bundle, undefined);
+    assert.equal(exported.file, path.join(bundlesDir, file));
+    assert.equal(JSON.parse(readFileSync(exported.file, 'utf8')).checksum, exported.checksum);
+
+    const before = (await (await fetch(`${simulator.url}/sim/learned`)).json()).learned.length;
+    const imported = await harness.callTool('importSignatures', { file, strategy: 'overwrite' });
+    assert.deepEqual([imported.overwritten, imported.failed], [1, 0]);
+    assert.deepEqual(imported.entries.map((entry: any) => [entry.action, entry.pinned, entry.applied]), [['overwrite', true, true]]);
+    // The service only pins stored signatures, so the record is stored before it is pinned
+    const { learned } = await (await fetch(`${simulator.url}/sim/learned`)).json();
+    assert.deepEqual(learned.slice(before).map((call: { pin: boolean }) => call.pin), [false, true]);
+    assert.deepEqual(imported.changed, [{ appBundleId: 'com.example.app', elementType: 'reply' }]);
+
+    const tampered = { ...inline.bundle, signatures: [{ ...inline.bundle.signatures[0], pinned: true }] };
+    await assert.rejects(
+      harness.callTool('importSignatures', { bundle: tampered }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /checksum does not match/.test(error.message)
+    );
+    await assert.rejects(
+      harness.callTool('importSignatures', { file, bundle: inline.bundle }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /give either file or bundle/.test(error.message)
+    );
+  });
+
+  test('an import with failed entries is audited as a failed call', async () => {
+    const client = new UIScoutClient(simulator.url);
+    client.learnSignature = async () => {
+      throw new Error('store is read-only');
+    };
+    const readOnly = await connectHarness({ client });
+    try {
+      const { bundle } = await readOnly.callTool('exportSignatures', {});
+      const imported = await readOnly.callTool('importSignatures', { bundle, strategy: 'overwrite' });
+      assert.equal(imported.failed, 1);
+
+      const log = await readOnly.callTool('getAuditLog', { tool: 'importSignatures' });
+      assert.deepEqual(
+        log.entries.map((entry: any) => [entry.success, entry.error]),
+        [[false, '1 of 1 signatures failed to import']]
+      );
+    } finally {
+      await readOnly.close();
+    }
+  });
+
+  test('bundle files outside the bundle directory are refused', async () => {
+    const outside = mkdtempSync(path.join(os.tmpdir(), 'ui-scout-outside-'));
+    writeFileSync(path.join(outside, 'secret.txt'), 'not a bundle\n');
+    symlinkSync(outside, path.join(bundlesDir, 'elsewhere'));
+
+    for (const file of ['../escape.json', path.join(outside, 'bundle.json'), 'elsewhere/bundle.json', '.']) {
+      await assert.rejects(
+        harness.callTool('exportSignatures', { file }),
+        (error: McpError) => error.code === ErrorCode.InvalidParams && /is outside the bundle directory/.test(error.message),
+        file
+      );
+    }
+    await assert.rejects(
+      harness.callTool('importSignatures', { file: 'elsewhere/secret.txt' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /is outside the bundle directory/.test(error.message)
+    );
+  });
+
+  test('a bundle file that is not JSON is reported without its contents', async () => {
+    writeFileSync(path.join(bundlesDir, 'broken.json'), 'token=hunter2\n');
+    await assert.rejects(
+      harness.callTool('importSignatures', { file: 'broken.json' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams
+        && /broken\.json is not valid JSON$/.test(error.message)
+        && !/hunter2/.test(JSON.stringify({ message: error.message, data: error.data }))
+    );
+  });
+
+  test('compareSignatures diffs a stored signature against a fresh match or another signature', async () => {
+    const fresh = await harness.callTool('compareSignatures', { baseline: 'com.example.app-reply' });
+    assert.equal(fresh.identical, true);
+    assert.equal(fresh.fresh.confidence, 0.87);
+    assert.match(fresh.fresh.handle, /^sig_\d+$/);
+    assert.match(fresh.summary, /matches a fresh reply match \(87% confidence\) in every compared field$/);
+
+    const { signature } = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+    const updated = { ...signature, role: 'ScrollArea', pathHint: ['Window[0]', 'SplitGroup[0]'] };
+    const result = await harness.callTool('compareSignatures', { baseline: fresh.fresh.handle, current: updated });
+    assert.equal(result.fresh, undefined);
+    assert.deepEqual(result.likelyCauses.map((cause: any) => cause.field), ['role', 'pathHint']);
+    assert.match(result.summary, /^2 fields differ from the current signature \(similarity 0\.\d+\); most likely cause: role changed from "Group" to "ScrollArea"$/);
+  });
+
+  test('the status and signature store are published as resources', async () => {
+    const { resources } = await harness.client.listResources();
+    assert.deepEqual(resources.map((r) => r.uri), ['uiscout://status', 'uiscout://signatures/com.example.app']);
+
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map((t) => t.uriTemplate), [
+      'uiscout://signatures/{appBundleId}',
+      'uiscout://signatures/{appBundleId}/{elementType}',
+    ]);
+
+    const status = await harness.client.readResource({ uri: 'uiscout://status' });
+    assert.equal(jsonOf(status).store.signatureCount, 1);
+
+    const stored = await harness.client.readResource({ uri: 'uiscout://signatures/com.example.app/reply' });
+    const body = jsonOf(stored);
+    assert.deepEqual([body.appBundleId, body.elementType, body.count], ['com.example.app', 'reply', 1]);
+
+    await assert.rejects(
+      harness.client.readResource({ uri: 'uiscout://signatures/com.example.app/button' }),
+      (error: McpError) => error.code === -32002 && /unknown element type "button"/.test(error.message)
+    );
+  });
+
+  test('learnSignature notifies subscribers of the resources it changed', async () => {
+    const updated: string[] = [];
+    harness.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    await harness.client.subscribeResource({ uri: 'uiscout://signatures/com.example.app/reply' });
+    await harness.client.subscribeResource({ uri: 'uiscout://status' });
+
+    await harness.callTool('learnSignature', { signature: { appBundleId: 'com.example.app', elementType: 'reply' } });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(updated, ['uiscout://status', 'uiscout://signatures/com.example.app/reply']);
+
+    await harness.client.unsubscribeResource({ uri: 'uiscout://status' });
+    await harness.callTool('learnSignature', { signature: { appBundleId: 'com.example.app', elementType: 'reply' } });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(updated.length, 3);
+  });
+
+  test('the resource listing is reported changed only when an app gets its first signature', async () => {
+    let listChanges = 0;
+    harness.client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanges++;
+    });
+    await harness.client.listResources();
+
+    const learn = (appBundleId: string) => harness.callTool('learnSignature', {
+      signature: { appBundleId, elementType: 'input', role: 'TextArea', frameHash: 'w400-h40-x0-y300@sha1', stability: 0.8, lastVerifiedAt: 0 },
+    });
+    await learn('com.example.app');
+    await learn('com.example.newapp');
+    await learn('com.example.newapp');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(listChanges, 1);
+  });
+
+  test('workflow prompts are listed and rendered', async () => {
+    const { prompts } = await harness.client.listPrompts();
+    assert.deepEqual(prompts.map((p) => p.name), ['chat-with-app', 'diagnose-element', 'grant-permissions']);
+    assert.deepEqual(prompts[1].arguments?.map((a) => [a.name, a.required]), [['appBundleId', true], ['elementType', true]]);
+
+    const prompt = await harness.client.getPrompt({
+      name: 'diagnose-element',
+      arguments: { appBundleId: 'com.example.app', elementType: 'reply' },
+    });
+    assert.match((prompt.messages[0].content as { text: string }).text, /cannot find the reply element in com\.example\.app/);
+
+    await assert.rejects(
+      harness.client.getPrompt({ name: 'no-such-prompt' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /Unknown prompt: no-such-prompt/.test(error.message)
+    );
+  });
+
+  test('listHandles and clearHandles manage the registry', async () => {
+    const listed = await harness.callTool('listHandles');
+    assert.ok(listed.total >= 1);
+
+    const cleared = await harness.callTool('clearHandles');
+    assert.equal(cleared.removed, listed.total);
+    assert.equal((await harness.callTool('listHandles')).total, 0);
+  });
+
+  test('waitForReplyComplete returns the settled snapshot and timeline', async () => {
+    const result = await harness.callTool('waitForReplyComplete', {
+      appBundleId: 'com.example.app',
+      signature: 'com.example.app-reply',
+      quietPeriodSeconds: 0.2,
+      pollIntervalMs: 100,
+      requireChange: false,
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.reason, 'quiet');
+    assert.equal(result.snapshot.textLength, 350);
+    assert.deepEqual(result.timeline.map((p: any) => p.trigger), ['initial']);
+    assert.match(result.summary, /Reply complete after [\d.]+s \(350 chars, 0 changes\)/);
+  });
+
+  test('askApp runs every stage and reads the settled reply', async () => {
+    const result = await harness.callTool('askApp', {
+      appBundleId: 'com.example.app',
+      text: 'hello',
+      quietPeriodSeconds: 0.2,
+      policy: { minConfidence: 0.7 },
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.stages.map((s: any) => s.stage), ['findInput', 'findReply', 'send', 'afterSendDiff', 'waitForReply']);
+    assert.ok(result.stages.every((s: any) => s.ok && s.durationMs >= 0));
+    assert.deepEqual(result.reply, { text: null, textLength: 350, childCount: 5 });
+    assert.match(result.handles.reply, /^sig_\d+$/);
+    assert.match(result.summary, /settled but its text is not readable/);
+  });
+
+  test('askApp reports a partial result when a stage is not confident enough', async () => {
+    const result = await harness.callTool('askApp', { appBundleId: 'com.example.app', text: 'hello' });
+
+    assert.equal(result.success, false);
+    assert.equal(result.partial, true);
+    assert.equal(result.failedStage, 'afterSendDiff');
+    assert.deepEqual(result.stages.map((s: any) => s.ok), [true, true, true, false]);
+    assert.equal(result.stages[3].confidence, 0.76);
+    assert.match(result.summary, new RegExp(`waitForReplyComplete with handle ${result.handles.reply}`));
+  });
+
+  test('askApp keeps its report when the service fails a stage after sending', async () => {
+    const client = new UIScoutClient(simulator.url);
+    client.afterSendDiff = async () => {
+      throw new UIScoutClientError('element tree changed', 500, undefined, 'http', 'POST /after-send-diff');
+    };
+    const flaky = await connectHarness({ client });
+    try {
+      const result = await flaky.callTool('askApp', { appBundleId: 'com.example.app', text: 'hello' });
+
+      assert.deepEqual([result.success, result.partial, result.failedStage, result.messageSent], [false, true, 'afterSendDiff', true]);
+      assert.deepEqual(result.stages.map((s: any) => s.ok), [true, true, true, false]);
+      assert.match(result.error, /element tree changed/);
+      assert.match(result.summary, /may already have been sent, so check the app before sending it again/);
+    } finally {
+      await flaky.close();
+    }
+  });
+
+  test('askApp still fails on transport errors', async () => {
+    const client = new UIScoutClient(simulator.url);
+    client.afterSendDiff = async () => {
+      throw new UIScoutClientError('UIScout service did not respond in time (POST /after-send-diff)', undefined, undefined, 'timeout');
+    };
+    const slow = await connectHarness({ client });
+    try {
+      await assert.rejects(
+        slow.callTool('askApp', { appBundleId: 'com.example.app', text: 'hello' }),
+        (error: McpError) => error.code === UIScoutErrorCode.ServiceTimeout
+      );
+    } finally {
+      await slow.close();
+    }
+  });
+
+  test('background observations run concurrently and are polled by cursor', async () => {
+    const first = await harness.callTool('startObservation', {
+      appBundleId: 'com.example.app',
+      signature: 'com.example.app-reply',
+      durationSeconds: 1,
+    });
+    const second = await harness.callTool('startObservation', {
+      appBundleId: 'com.example.other',
+      signature: { appBundleId: 'com.example.app', elementType: 'reply' },
+      durationSeconds: 1,
+    });
+    assert.match(first.sessionId, /^obs_\d+$/);
+    assert.notEqual(first.sessionId, second.sessionId);
+    assert.equal(first.status, 'running');
+
+    // The simulator ends its stream after two events
+    await new Promise((resolve) => setTimeout(resolve, 600));
+
+    for (const { sessionId } of [first, second]) {
+      const poll = await harness.callTool('pollObservation', { sessionId, limit: 1 });
+      assert.equal(poll.status, 'completed');
+      assert.deepEqual(poll.events.map((e: any) => e.notification), ['kAXChildrenChangedNotification']);
+      assert.equal(poll.more, true);
+
+      const rest = await harness.callTool('pollObservation', { sessionId, cursor: poll.cursor });
+      assert.deepEqual(rest.events.map((e: any) => e.notification), ['kAXValueChangedNotification']);
+      assert.equal(rest.cursor, 2);
+      assert.equal(rest.more, false);
+    }
+  });
+
+  test('stopObservation cancels a running observation', async () => {
+    const started = await harness.callTool('startObservation', {
+      appBundleId: 'com.example.app',
+      signature: 'com.example.app-reply',
+      durationSeconds: 60,
+    });
+    const stopped = await harness.callTool('stopObservation', { sessionId: started.sessionId });
+
+    assert.equal(stopped.status, 'stopped');
+    assert.equal((await harness.callTool('pollObservation', { sessionId: started.sessionId })).status, 'stopped');
+  });
+
+  test('unknown observation sessions are rejected', async () => {
+    await assert.rejects(
+      harness.callTool('pollObservation', { sessionId: 'obs_999' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /unknown or expired observation/.test(error.message)
+    );
+  });
+
+  test('invalid arguments map to InvalidParams with the failing field', async () => {
+    await assert.rejects(
+      harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'button' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /elementType/.test(error.message)
+    );
+  });
+
+  test('unknown handles are rejected', async () => {
+    await assert.rejects(
+      harness.callTool('captureSnapshot', { appBundleId: 'com.example.app', signature: 'sig_999' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /unknown or expired handle/.test(error.message)
+    );
+  });
+
+  test('unknown tools map to MethodNotFound', async () => {
+    await assert.rejects(
+      harness.callTool('doesNotExist'),
+      (error: McpError) => error.code === ErrorCode.MethodNotFound && /Unknown tool: doesNotExist/.test(error.message)
+    );
+  });
+
+  test('HTTP errors from the service carry status, endpoint and body', async () => {
+    // Every route under this prefix is a 404 on the simulator
+    const client = new UIScoutClient(`${simulator.url}/missing`);
+    const broken = await connectHarness({ client });
+    try {
+      await assert.rejects(broken.callTool('getStatus'), (error: McpError) => {
+        assert.equal(error.code, UIScoutErrorCode.ServiceRejected);
+        assert.deepEqual(error.data, {
+          tool: 'getStatus',
+          kind: 'http',
+          status: 404,
+          endpoint: 'GET /status',
+          body: '',
+        });
+        return true;
+      });
+
+      // Observations fail the same way instead of returning success: false
+      const { signature } = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+      await assert.rejects(
+        broken.callTool('observeElement', { appBundleId: 'com.example.app', signature, durationSeconds: 1 }),
+        (error: McpError) => error.code === UIScoutErrorCode.ServiceRejected && (error.data as { endpoint: string }).endpoint === 'POST /observe'
+      );
+    } finally {
+      await broken.close();
+    }
+  });
+});
+
+describe('MCP server with several backends', () => {
+  let simulator: Simulator;
+  let harness: Harness;
+
+  before(async () => {
+    simulator = await startSimulator();
+    harness = await connectHarness({
+      backends: {
+        backends: {
+          sim: { url: simulator.url },
+          offline: { url: 'http://127.0.0.1:9' },
+        },
+        routes: [{ app: 'com.offline.*', backend: 'offline' }],
+      },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    await simulator.stop();
+  });
+
+  test('calls are routed by appBundleId pattern', async () => {
+    const found = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+    assert.equal(found.success, true);
+
+    await assert.rejects(
+      harness.callTool('findElement', { appBundleId: 'com.offline.app', elementType: 'reply' }),
+      (error: McpError) => error.code === UIScoutErrorCode.ServiceUnavailable
+    );
+  });
+
+  test('an explicit backend argument overrides the routes', async () => {
+    const found = await harness.callTool('findElement', { appBundleId: 'com.offline.app', elementType: 'reply', backend: 'sim' });
+    assert.equal(found.signature.appBundleId, 'com.offline.app');
+
+    await assert.rejects(
+      harness.callTool('getStatus', { backend: 'staging' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /unknown backend "staging"/.test(error.message)
+    );
+  });
+
+  test('getStatus aggregates every backend', async () => {
+    const status = await harness.callTool('getStatus');
+
+    assert.equal(status.canOperate, false);
+    assert.deepEqual(status.backends.map((b: any) => [b.backend, b.reachable]), [['sim', true], ['offline', false]]);
+    assert.equal(status.backends[0].store.signatureCount, 1);
+    assert.match(status.summary, /1 of 2 UIScout backends operational\. offline: /);
+
+    const single = await harness.callTool('getStatus', { backend: 'sim' });
+    assert.equal(single.backend, 'sim');
+    assert.equal(single.canOperate, true);
+  });
+});
+
+describe('MCP server with app access lists', () => {
+  let simulator: Simulator;
+  let harness: Harness;
+  let auditFile: string;
+
+  before(async () => {
+    simulator = await startSimulator();
+    auditFile = path.join(mkdtempSync(path.join(os.tmpdir(), 'ui-scout-audit-')), 'audit.jsonl');
+    harness = await connectHarness({
+      serviceUrl: simulator.url,
+      access: { blocked: ['Keychain Access', 'Terminal'] },
+      audit: { file: auditFile },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    await simulator.stop();
+  });
+
+  test('blocked apps are denied before the call reaches the service', async () => {
+    await assert.rejects(
+      harness.callTool('captureSnapshot', { signature: 'com.apple.Terminal-input' }),
+      (error: McpError) => error.code === UIScoutErrorCode.AccessDenied
+        && /Access to com\.apple\.Terminal is denied: it matches blocked_applications pattern "Terminal"/.test(error.message)
+        && (error.data as { rule: { pattern: string } }).rule.pattern === 'Terminal'
+    );
+
+    const found = await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+    assert.equal(found.success, true);
+  });
+
+  test('listSignatures leaves out blocked apps, like the resource listing', async () => {
+    const strict = await connectHarness({ serviceUrl: simulator.url, access: { blocked: ['com.example.*'] } });
+    try {
+      const result = await strict.callTool('listSignatures');
+      assert.deepEqual([result.total, result.excluded, result.signatures], [0, 1, []]);
+      assert.match(result.summary, /\(1 left out by the security lists\)$/);
+
+      const { resources } = await strict.client.listResources();
+      assert.deepEqual(resources.map((r) => r.uri), ['uiscout://status']);
+    } finally {
+      await strict.close();
+    }
+  });
+
+  test('every decision is appended to the audit log', async () => {
+    const entries = readFileSync(auditFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+
+    assert.deepEqual(
+      entries.filter((entry) => entry.type === 'access').map((entry) => [entry.tool, entry.appBundleId, entry.decision, entry.rule?.pattern]),
+      [
+        ['captureSnapshot', 'com.apple.Terminal', 'deny', 'Terminal'],
+        ['findElement', 'com.example.app', 'allow', undefined],
+      ]
+    );
+  });
+
+  test('getAuditLog returns recent calls with redacted arguments', async () => {
+    await harness.callTool('sendMessage', { appBundleId: 'com.example.app', text: 'secret plans' });
+
+    const log = await harness.callTool('getAuditLog', { type: 'call' });
+    assert.equal(log.file, auditFile);
+    assert.deepEqual(
+      log.entries.map((entry: any) => [entry.tool, entry.success, entry.errorClass]),
+      [
+        ['sendMessage', true, undefined],
+        ['findElement', true, undefined],
+        ['captureSnapshot', false, 'AccessDenied'],
+      ]
+    );
+    assert.deepEqual(log.entries[0].args, { appBundleId: 'com.example.app', text: '[redacted: 12 chars]' });
+    assert.equal(log.entries[1].confidence, 0.87);
+    assert.equal(log.entries[2].appBundleId, 'com.apple.Terminal');
+    assert.match(log.summary, /^3 audit entries, 1 failed calls$/);
+
+    const failed = await harness.callTool('getAuditLog', { errorsOnly: true });
+    assert.equal(failed.count, 1);
+  });
+});
+
+describe('MCP server with approval required', () => {
+  let simulator: Simulator;
+  let harness: Harness;
+  let auditFile: string;
+  const prompts: string[] = [];
+
+  before(async () => {
+    simulator = await startSimulator();
+    auditFile = path.join(mkdtempSync(path.join(os.tmpdir(), 'ui-scout-audit-')), 'audit.jsonl');
+    harness = await connectHarness({
+      serviceUrl: simulator.url,
+      audit: { file: auditFile },
+      approval: { required: true, allowlist: [{ tool: 'learnSignature', app: 'com.example.app' }] },
+      bundlesDir: mkdtempSync(path.join(os.tmpdir(), 'ui-scout-bundles-')),
+    }, { elicitation: {} });
+
+    // Approve everything except messages that mention a password; fail on a crash
+    harness.client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      prompts.push(request.params.message);
+      if (/crash/.test(request.params.message)) {
+        throw new Error('approval dialog crashed');
+      }
+      return { action: /password/.test(request.params.message) ? 'decline' : 'accept', content: {} };
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    await simulator.stop();
+  });
+
+  test('mutating calls go ahead once the user approves them', async () => {
+    const result = await harness.callTool('sendMessage', { appBundleId: 'com.example.app', text: 'Hello' });
+    assert.equal(result.success, true);
+    assert.deepEqual(prompts, ['Allow sendMessage to type "Hello" into com.example.app and send it?']);
+
+    // Allowlisted and read-only calls don't ask
+    await harness.callTool('learnSignature', { signature: { appBundleId: 'com.example.app', elementType: 'reply' } });
+    await harness.callTool('findElement', { appBundleId: 'com.example.app', elementType: 'reply' });
+    assert.equal(prompts.length, 1);
+  });
+
+  test('declined calls fail with ApprovalDenied and every outcome is audited', async () => {
+    await assert.rejects(
+      harness.callTool('sendMessage', { appBundleId: 'com.example.app', text: 'my password is hunter2' }),
+      (error: McpError) => error.code === UIScoutErrorCode.ApprovalDenied
+        && /sendMessage was not approved: declined by the user/.test(error.message)
+    );
+
+    const entries = readFileSync(auditFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.deepEqual(
+      entries.filter((entry) => entry.type === 'approval').map((entry) => [entry.type, entry.tool, entry.decision, entry.method]),
+      [
+        ['approval', 'sendMessage', 'approve', 'elicitation'],
+        ['approval', 'learnSignature', 'approve', 'allowlist'],
+        ['approval', 'sendMessage', 'deny', 'elicitation'],
+      ]
+    );
+  });
+
+  test('exports ask for approval only when they write a file', async () => {
+    prompts.length = 0;
+    await harness.callTool('exportSignatures', { appBundleId: 'com.example.app' });
+    assert.deepEqual(prompts, []);
+
+    const exported = await harness.callTool('exportSignatures', { appBundleId: 'com.example.app', file: 'example.json' });
+    assert.equal(exported.count, 1);
+    assert.deepEqual(prompts, ['Allow exportSignatures to write the stored signatures of com.example.app to example.json?']);
+  });
+
+  test('a failed approval request is audited and denied', async () => {
+    await assert.rejects(
+      harness.callTool('sendMessage', { appBundleId: 'com.example.app', text: 'crash' }),
+      (error: McpError) => error.code === UIScoutErrorCode.ApprovalDenied
+        && /sendMessage was not approved: the approval request failed: .*approval dialog crashed/.test(error.message)
+    );
+
+    const entries = readFileSync(auditFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    const last = entries.filter((entry) => entry.type === 'approval').at(-1);
+    assert.deepEqual([last.tool, last.decision, last.method], ['sendMessage', 'deny', 'elicitation']);
+  });
+
+  test('invalid arguments are rejected before the user is asked', async () => {
+    prompts.length = 0;
+    await assert.rejects(
+      harness.callTool('sendMessage', { appBundleId: 'com.example.app' }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && /text/.test(error.message)
+    );
+    assert.deepEqual(prompts, []);
+  });
+
+  test('a malformed approval file is reported as a config error and audited as a denial', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'ui-scout-approvals-'));
+    const file = path.join(dir, 'approvals.json');
+    writeFileSync(file, '{"approvals": "all"}');
+    const audit = path.join(dir, 'audit.jsonl');
+    const broken = await connectHarness({ serviceUrl: simulator.url, audit: { file: audit }, approval: { required: true, file } });
+    try {
+      await assert.rejects(
+        broken.callTool('sendMessage', { appBundleId: 'com.example.app', text: 'Hi' }),
+        (error: McpError) => error.code === UIScoutErrorCode.ConfigInvalid && /Approval file .* is invalid: approvals/.test(error.message)
+      );
+      const entries = readFileSync(audit, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      assert.deepEqual(
+        entries.filter((entry) => entry.type === 'approval').map((entry) => [entry.tool, entry.decision, entry.method]),
+        [['sendMessage', 'deny', 'file']]
+      );
+    } finally {
+      await broken.close();
+    }
+  });
+
+  test('without elicitation or sampling gated calls are denied with instructions', async () => {
+    const plain = await connectHarness({ serviceUrl: simulator.url, approval: { required: true } });
+    try {
+      await assert.rejects(
+        plain.callTool('askApp', { appBundleId: 'com.example.app', text: 'Hi' }),
+        (error: McpError) => error.code === UIScoutErrorCode.ApprovalDenied && /mcp\.approval\.allowlist/.test(error.message)
+      );
+    } finally {
+      await plain.close();
+    }
+  });
+});
+
+describe('MCP server without a service', () => {
+  test('tool calls fail fast when the service is down', async () => {
+    const harness = await connectHarness({ serviceUrl: 'http://127.0.0.1:9' });
+    try {
+      await assert.rejects(
+        harness.callTool('getStatus'),
+        (error: McpError) => error.code === UIScoutErrorCode.ServiceUnavailable && /not available/.test(error.message)
+      );
+    } finally {
+      await harness.close();
+    }
+  });
+
+  test('unknown tools and blocked apps are reported as such while the service is down', async () => {
+    const harness = await connectHarness({ serviceUrl: 'http://127.0.0.1:9', access: { blocked: ['Terminal'] } });
+    try {
+      await assert.rejects(
+        harness.callTool('findElemnt', { appBundleId: 'com.example.app' }),
+        (error: McpError) => error.code === ErrorCode.MethodNotFound
+      );
+      await assert.rejects(
+        harness.callTool('findElement', { appBundleId: 'com.apple.Terminal', elementType: 'input' }),
+        (error: McpError) => error.code === UIScoutErrorCode.AccessDenied
+      );
+    } finally {
+      await harness.close();
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ElementSignature, ObservationEvent } from '../src/client.js';
+import { ObservationManager } from '../src/observations.js';
+import { clientWith, signature as fixture } from './support/fixtures.js';
+
+const signature = fixture();
+
+// A client whose observe stream emits `count` events and then waits until aborted (or ends when `end` is set)
+function stubClient(count: number, options: { end?: boolean; fail?: string; malformed?: number } = {}) {
+  const client = clientWith({
+    async* observeElement(
+      _app: string,
+      _sig: ElementSignature,
+      _duration: number,
+      _policy: unknown,
+      signal?: AbortSignal,
+      onSkipped?: (reason: string) => void
+    ): AsyncGenerator<ObservationEvent> {
+      for (let i = 0; i < (options.malformed ?? 0); i++) {
+        onSkipped?.('Observe event is not valid JSON');
+      }
+      for (let i = 0; i < count; i++) {
+        yield { type: 'event', timestamp: Date.now() / 1000, notification: `n${i}` } as ObservationEvent;
+      }
+      if (options.fail) {
+        throw new Error(options.fail);
+      }
+      if (!options.end) {
+        await new Promise((_, reject) => signal?.addEventListener('abort', () => reject(new Error('aborted'))));
+      }
+    },
+  });
+  return client;
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('polling returns events after the cursor and advances it', async () => {
+  const client = stubClient(5);
+  const manager = new ObservationManager();
+  const session = manager.start(client, 'com.example.app', signature, 60);
+  await tick();
+
+  const first = manager.poll(session.id, 0, 3)!;
+  assert.deepEqual(first.events.map((e) => e.notification), ['n0', 'n1', 'n2']);
+  assert.equal(first.cursor, 3);
+
+  const second = manager.poll(session.id, first.cursor)!;
+  assert.deepEqual(second.events.map((e) => e.notification), ['n3', 'n4']);
+  assert.equal(second.cursor, 5);
+  assert.equal(second.session.status, 'running');
+
+  const empty = manager.poll(session.id, second.cursor)!;
+  assert.deepEqual(empty.events, []);
+  assert.equal(empty.cursor, 5);
+
+  manager.stopAll();
+});
+
+test('the buffer keeps the newest events and reports what was dropped', async () => {
+  const client = stubClient(10, { end: true });
+  const manager = new ObservationManager({ maxEventsPerSession: 4 });
+  const session = manager.start(client, 'com.example.app', signature, 60);
+  await tick();
+
+  const poll = manager.poll(session.id)!;
+  assert.deepEqual(poll.events.map((e) => e.seq), [6, 7, 8, 9]);
+  assert.equal(poll.dropped, 6);
+  assert.equal(poll.session.status, 'completed');
+});
+
+test('malformed events are counted without ending the session', async () => {
+  const client = stubClient(2, { end: true, malformed: 3 });
+  const manager = new ObservationManager();
+  const session = manager.start(client, 'com.example.app', signature, 60);
+  await tick();
+
+  const poll = manager.poll(session.id)!;
+  assert.deepEqual([poll.events.length, poll.session.skippedEvents, poll.session.status], [2, 3, 'completed']);
+});
+
+test('stopping aborts the stream and keeps the stopped status', async () => {
+  const client = stubClient(1);
+  const manager = new ObservationManager();
+  const session = manager.start(client, 'com.example.app', signature, 60);
+  await tick();
+
+  manager.stop(session.id);
+  await tick();
+
+  assert.equal(session.controller.signal.aborted, true);
+  assert.equal(manager.poll(session.id)!.session.status, 'stopped');
+  assert.equal(session.error, undefined);
+});
+
+test('a failing stream marks the session failed', async () => {
+  const client = stubClient(1, { fail: 'HTTP 500' });
+  const manager = new ObservationManager();
+  const session = manager.start(client, 'com.example.app', signature, 60);
+  await tick();
+
+  const poll = manager.poll(session.id)!;
+  assert.equal(poll.session.status, 'failed');
+  assert.equal(poll.session.error, 'HTTP 500');
+  assert.equal(poll.events.length, 1);
+});
+
+test('concurrent sessions are limited', () => {
+  const client = stubClient(0);
+  const manager = new ObservationManager({ maxSessions: 2 });
+  manager.start(client, 'com.example.a', signature, 60);
+  manager.start(client, 'com.example.b', signature, 60);
+
+  assert.throws(() => manager.start(client, 'com.example.c', signature, 60), McpError);
+  manager.stopAll();
+});
+
+test('sessions expire when not polled', async () => {
+  const client = stubClient(0);
+  const manager = new ObservationManager({ idleExpiryMs: 20 });
+  const session = manager.start(client, 'com.example.app', signature, 60);
+  await new Promise((resolve) => setTimeout(resolve, 40));
+
+  assert.equal(manager.poll(session.id), undefined);
+  assert.equal(session.status, 'stopped');
+  assert.equal(session.controller.signal.aborted, true);
+});
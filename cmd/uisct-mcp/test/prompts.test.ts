@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BUILTIN_PROMPTS, loadPromptDirectory, mergePrompts, renderPrompt } from '../src/prompts.js';
+import { TOOL_SPECS } from '../src/tools.js';
+
+function promptDir(files: Record<string, unknown>): string {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'ui-scout-prompts-'));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, name), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return dir;
+}
+
+const summarize = {
+  name: 'summarize-chat',
+  description: 'Summarize the visible conversation',
+  arguments: [{ name: 'appBundleId', required: true }],
+  template: ['Call findElement for the reply of {{appBundleId}}.', 'Then captureSnapshot and summarize it.'],
+};
+
+test('built-in prompts fill in arguments and defaults', () => {
+  const chat = BUILTIN_PROMPTS.find((prompt) => prompt.name === 'chat-with-app')!;
+  const text = (renderPrompt(chat, { appBundleId: 'com.raycast.macos', message: 'Hi' }).messages[0].content as { text: string }).text;
+
+  assert.match(text, /app com\.raycast\.macos/);
+  assert.match(text, /Message: Hi/);
+  assert.match(text, /policy \{"minConfidence": 0\.8\}/);
+  assert.doesNotMatch(text, /\{\{/);
+
+  assert.throws(
+    () => renderPrompt(chat, { appBundleId: 'com.raycast.macos' }),
+    (error: McpError) => error.code === ErrorCode.InvalidParams && /requires message/.test(error.message)
+  );
+});
+
+test('built-in prompts only mention tools that exist', () => {
+  // askApp stage names read like tool names
+  const tools = [...TOOL_SPECS.map((spec) => spec.name), 'findInput', 'findReply', 'waitForReply'];
+  for (const prompt of BUILTIN_PROMPTS) {
+    const mentioned = prompt.template.match(/\b(?:get|find|after|observe|capture|send|learn|list|wait|ask)[A-Z]\w+/g) ?? [];
+    assert.deepEqual(mentioned.filter((name) => !tools.includes(name)), [], prompt.name);
+  }
+});
+
+test('prompt files are loaded and can replace built-ins', () => {
+  const dir = promptDir({
+    'summarize.json': summarize,
+    'grant.json': { name: 'grant-permissions', description: 'Our own wording', template: 'Ask IT.' },
+    'notes.txt': 'ignored',
+  });
+
+  const prompts = mergePrompts(BUILTIN_PROMPTS, loadPromptDirectory(dir));
+  assert.deepEqual(prompts.map((prompt) => prompt.name), ['chat-with-app', 'diagnose-element', 'grant-permissions', 'summarize-chat']);
+  assert.equal(prompts.find((prompt) => prompt.name === 'grant-permissions')!.template, 'Ask IT.');
+  assert.equal(prompts[3].template, 'Call findElement for the reply of {{appBundleId}}.\nThen captureSnapshot and summarize it.');
+
+  assert.deepEqual(loadPromptDirectory(path.join(dir, 'missing')), []);
+});
+
+test('invalid prompt files are reported by file and field', () => {
+  assert.throws(
+    () => loadPromptDirectory(promptDir({ 'bad.json': { ...summarize, template: 'Use {{elementType}}' } })),
+    /Invalid prompt file .*bad\.json: template: \{\{elementType\}\} is not a declared argument/
+  );
+  assert.throws(() => loadPromptDirectory(promptDir({ 'broken.json': '{' })), /broken\.json is not valid JSON/);
+  assert.throws(
+    () => loadPromptDirectory(promptDir({ 'a.json': summarize, 'b.json': summarize })),
+    /b\.json reuses the name "summarize-chat" of .*a\.json/
+  );
+});
+
+test('arguments used inside tool arguments are validated', () => {
+  const chat = BUILTIN_PROMPTS.find((prompt) => prompt.name === 'chat-with-app')!;
+  const diagnose = BUILTIN_PROMPTS.find((prompt) => prompt.name === 'diagnose-element')!;
+
+  const text = (renderPrompt(chat, { appBundleId: 'com.raycast.macos', message: 'Hi', minConfidence: '.5' }).messages[0].content as { text: string }).text;
+  assert.match(text, /policy \{"minConfidence": 0\.5\}/);
+
+  for (const minConfidence of ['high', '1.5']) {
+    assert.throws(
+      () => renderPrompt(chat, { appBundleId: 'com.raycast.macos', message: 'Hi', minConfidence }),
+      (error: McpError) => error.code === ErrorCode.InvalidParams && (error.data as { issues: Array<{ field: string }> }).issues[0].field === 'minConfidence'
+    );
+  }
+  assert.throws(
+    () => renderPrompt(diagnose, { appBundleId: 'com.raycast.macos', elementType: 'button' }),
+    (error: McpError) => error.code === ErrorCode.InvalidParams && /elementType: Invalid enum value/.test(error.message)
+  );
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { ElementType } from '../src/client.js';
+import { AppAccessPolicy } from '../src/access.js';
+import { AuditLog } from '../src/audit.js';
+import { BackendRouter } from '../src/backends.js';
+import { UIScoutErrorCode } from '../src/errors.js';
+import { RESOURCE_NOT_FOUND, RESOURCE_TEMPLATES, signaturesUri, UIScoutResources } from '../src/resources.js';
+import { clientWith, signature } from './support/fixtures.js';
+
+const signatures = ['com.example.app', 'com.apple.Terminal', 'com.example.app'].map((appBundleId) => signature({ appBundleId }));
+
+// A store holding the signatures above; records the filters it was asked for
+function stubRouter(queries: Array<[string?, ElementType?]> = []) {
+  const client = clientWith({
+    async listSignatures(app?: string, type?: ElementType) {
+      queries.push([app, type]);
+      const matching = signatures.filter((sig) => (!app || sig.appBundleId === app) && (!type || sig.elementType === type));
+      return { signatures: matching, count: matching.length, skipped: 0 };
+    },
+  });
+  return BackendRouter.single(client, 'http://127.0.0.1:8080');
+}
+
+// Decode the JSON text of a resource read
+function jsonOf(result: ReadResourceResult): any {
+  const [content] = result.contents;
+  assert.ok('text' in content, 'expected a text resource');
+  return JSON.parse(content.text);
+}
+
+const blockTerminal = new AppAccessPolicy({ blocked: ['Terminal'] });
+
+test('apps with signatures are listed once, except blocked ones', async () => {
+  const resources = new UIScoutResources(stubRouter(), async () => ({}), blockTerminal);
+
+  assert.deepEqual((await resources.list()).map((resource) => resource.uri), [
+    'uiscout://status',
+    'uiscout://signatures/com.example.app',
+  ]);
+});
+
+test('signature URIs are parsed into store queries', async () => {
+  const queries: Array<[string?, ElementType?]> = [];
+  const audit = new AuditLog();
+  const resources = new UIScoutResources(stubRouter(queries), async () => ({ canOperate: true }), blockTerminal, audit);
+
+  const read = await resources.read(signaturesUri('com.example.app', 'reply'));
+  assert.equal(read.contents[0].uri, 'uiscout://signatures/com.example.app/reply');
+  assert.equal(jsonOf(read).count, 2);
+  assert.deepEqual(queries, [['com.example.app', 'reply']]);
+
+  const status = await resources.read('uiscout://status');
+  assert.deepEqual(jsonOf(status), { canOperate: true });
+
+  for (const uri of ['uiscout://signatures/com.example.app/button', 'uiscout://signatures/', 'uiscout://other']) {
+    await assert.rejects(resources.read(uri), (error: McpError) => error.code === RESOURCE_NOT_FOUND);
+  }
+  await assert.rejects(
+    resources.read('uiscout://signatures/com.apple.Terminal'),
+    (error: McpError) => error.code === UIScoutErrorCode.AccessDenied
+  );
+  assert.deepEqual(
+    audit.query({ limit: 10, type: 'access' }).map((entry) => [entry.tool, entry.appBundleId, 'decision' in entry && entry.decision]),
+    [['resources/read', 'com.apple.Terminal', 'deny'], ['resources/read', 'com.example.app', 'allow']]
+  );
+});
+
+test('the element type template names every element type', () => {
+  assert.match(RESOURCE_TEMPLATES[1].description ?? '', /\(reply, input, session, send\)/);
+});
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readSSE, SSEDecoder, SSETruncatedError } from '../src/sse.js';
+
+function decodeAll(chunks: Array<string | Uint8Array>): ReturnType<SSEDecoder['decode']> {
+  const decoder = new SSEDecoder();
+  const messages = chunks.flatMap((chunk) => decoder.decode(chunk));
+  decoder.end();
+  return messages;
+}
+
+test('data lines are joined with newlines', () => {
+  const messages = decodeAll(['data: first\ndata: second\ndata\n\n']);
+  assert.deepEqual(messages, [{ event: 'message', data: 'first\nsecond\n', lastEventId: '' }]);
+});
+
+test('CRLF, CR and LF line endings are all accepted, even split across chunks', () => {
+  const messages = decodeAll(['data: a\r', '\n\r', '\ndata: b\r\rdata: c\n', '\n']);
+  assert.deepEqual(messages.map((m) => m.data), ['a', 'b', 'c']);
+});
+
+test('only one leading space is stripped from values', () => {
+  assert.equal(decodeAll(['data:  indented\n\n'])[0].data, ' indented');
+  assert.equal(decodeAll(['data:tight\n\n'])[0].data, 'tight');
+});
+
+test('event, id and retry fields are applied', () => {
+  const decoder = new SSEDecoder();
+  const messages = decoder.decode('event: status\nid: 7\nretry: 1500\ndata: {}\n\ndata: next\n\n');
+
+  assert.deepEqual(messages, [
+    { event: 'status', data: '{}', lastEventId: '7' },
+    { event: 'message', data: 'next', lastEventId: '7' },
+  ]);
+  assert.equal(decoder.lastEventId, '7');
+  assert.equal(decoder.retry, 1500);
+});
+
+test('invalid retry values and IDs containing NUL are ignored', () => {
+  const decoder = new SSEDecoder();
+  decoder.decode('id: 1\nretry: soon\n\nid: a\0b\n\n');
+  assert.equal(decoder.lastEventId, '1');
+  assert.equal(decoder.retry, undefined);
+});
+
+test('comment heartbeats and events without data dispatch nothing', () => {
+  const decoder = new SSEDecoder();
+  const messages = decoder.decode(': keep-alive\n\n:\n\nevent: ping\n\nid: 3\n\n');
+
+  assert.deepEqual(messages, []);
+  assert.equal(decoder.comments, 2);
+  assert.equal(decoder.lastEventId, '3');
+});
+
+test('multi-byte characters split across chunks are decoded intact', () => {
+  const bytes = new TextEncoder().encode('\uFEFFdata: héllo ✓\n\n');
+  const messages = decodeAll([bytes.slice(0, 9), bytes.slice(9, 15), bytes.slice(15)]);
+  assert.deepEqual(messages.map((m) => m.data), ['héllo ✓']);
+});
+
+test('ending in the middle of an event throws a truncation error', () => {
+  const decoder = new SSEDecoder();
+  decoder.decode('id: 4\ndata: done\n\ndata: {"partial"');
+
+  assert.throws(
+    () => decoder.end(),
+    (error: SSETruncatedError) => error instanceof SSETruncatedError
+      && error.lastEventId === '4'
+      && error.pending === 'data: {"partial"'
+  );
+});
+
+test('an unterminated event is also a truncation', () => {
+  const decoder = new SSEDecoder();
+  decoder.decode('data: unfinished\n');
+  assert.throws(() => decoder.end(), SSETruncatedError);
+});
+
+test('readSSE yields messages from a stream and checks its ending', async () => {
+  async function* chunks() {
+    yield 'data: one\n\nda';
+    yield 'ta: two\n\n';
+  }
+  const messages: string[] = [];
+  for await (const message of readSSE(chunks())) {
+    messages.push(message.data);
+  }
+  assert.deepEqual(messages, ['one', 'two']);
+
+  async function* cut() {
+    yield 'data: one\n\ndata: tw';
+  }
+  await assert.rejects(async () => {
+    for await (const _ of readSSE(cut())) {
+      // drain
+    }
+  }, SSETruncatedError);
+});
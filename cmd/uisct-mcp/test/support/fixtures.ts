@@ -0,0 +1,20 @@
+import { ElementSignature, ElementSignatureSchema, UIScoutClient } from '../../src/client.js';
+
+// A stored reply signature of com.example.app, like the simulator's; the
+// schema fills in the fields the overrides leave out
+export function signature(overrides: Partial<ElementSignature> = {}): ElementSignature {
+  return ElementSignatureSchema.parse({
+    appBundleId: 'com.example.app',
+    elementType: 'reply',
+    role: 'Group',
+    frameHash: 'w400-h300-x0-y0@sha1',
+    stability: 0.8,
+    lastVerifiedAt: 0,
+    ...overrides,
+  });
+}
+
+// A client that only implements the methods a test calls
+export function clientWith(methods: Partial<UIScoutClient>): UIScoutClient {
+  return methods as UIScoutClient;
+}
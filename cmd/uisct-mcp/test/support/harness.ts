@@ -0,0 +1,37 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutMCPServer, UIScoutMCPServerOptions } from '../../src/server.js';
+import { createLinkedTransports } from './memoryTransport.js';
+
+export interface Harness {
+  client: Client;
+  server: UIScoutMCPServer;
+  callTool(name: string, args?: Record<string, unknown>): Promise<any>;
+  close(): Promise<void>;
+}
+
+// Connect an MCP client to an in-process UIScoutMCPServer; handlers for the
+// declared client capabilities can be set on harness.client afterwards
+export async function connectHarness(
+  options: UIScoutMCPServerOptions,
+  capabilities: ClientCapabilities = {}
+): Promise<Harness> {
+  const server = new UIScoutMCPServer(options);
+  const client = new Client({ name: 'uisct-mcp-test', version: '1.0.0' }, { capabilities });
+  const [clientTransport, serverTransport] = createLinkedTransports();
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    client,
+    server,
+    // Call a tool and decode the JSON text content it returns
+    async callTool(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as Array<{ type: string; text: string }>;
+      return JSON.parse(content[0].text);
+    },
+    close: () => client.close(),
+  };
+}
@@ -0,0 +1,39 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+// One end of an in-process transport pair; messages are delivered
+// asynchronously to mimic a real connection
+export class MemoryTransport implements Transport {
+  peer?: MemoryTransport;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  private closed = false;
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed || !this.peer) {
+      throw new Error('Transport is closed');
+    }
+    const peer = this.peer;
+    setImmediate(() => peer.onmessage?.(message));
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.onclose?.();
+    await this.peer?.close();
+  }
+}
+
+export function createLinkedTransports(): [MemoryTransport, MemoryTransport] {
+  const client = new MemoryTransport();
+  const server = new MemoryTransport();
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
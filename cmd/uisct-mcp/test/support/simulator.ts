@@ -0,0 +1,53 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../..');
+const simulatorPath = path.join(repoRoot, 'testsuite/simulator/server.js');
+
+export const BASIC_SCENARIO = path.join(repoRoot, 'testsuite/scenarios/basic.json');
+
+export interface Simulator {
+  url: string;
+  stop(): Promise<void>;
+}
+
+// Boot testsuite/simulator/server.js on a free port
+export function startSimulator(scenarioPath: string = BASIC_SCENARIO): Promise<Simulator> {
+  const child = spawn(process.execPath, [simulatorPath, '--port', '0', '--scenario', scenarioPath], {
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Simulator did not start: ${output}`));
+    }, 5000);
+
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Simulator exited with code ${code}: ${output}`));
+    });
+
+    child.stdout!.on('data', (chunk) => {
+      output += chunk.toString();
+      const match = output.match(/listening on (http:\/\/[\d.]+:\d+)/);
+      if (match) {
+        clearTimeout(timer);
+        child.removeAllListeners('exit');
+        resolve({ url: match[1], stop: () => stop(child) });
+      }
+    });
+  });
+}
+
+function stop(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    child.once('exit', () => resolve());
+    child.kill();
+  });
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { UIScoutClient } from '../src/client.js';
+import { TOOL_SPECS, UIScoutTools } from '../src/tools.js';
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return unwrap(schema.removeDefault());
+  }
+  return schema;
+}
+
+const tools = new UIScoutTools(new UIScoutClient('http://127.0.0.1:0'));
+const definitions = tools.getToolDefinitions();
+
+test('every tool spec is advertised exactly once', () => {
+  assert.deepEqual(
+    definitions.map((d) => d.name).sort(),
+    TOOL_SPECS.map((s) => s.name).sort()
+  );
+});
+
+for (const spec of TOOL_SPECS) {
+  test(`${spec.name}: advertised schema matches its validator`, () => {
+    const advertised = definitions.find((d) => d.name === spec.name)!;
+    const properties = (advertised.inputSchema.properties ?? {}) as Record<string, any>;
+    const required = (advertised.inputSchema as { required?: string[] }).required ?? [];
+    const shape = spec.input.shape as Record<string, z.ZodTypeAny>;
+
+    assert.equal(advertised.inputSchema.type, 'object');
+    assert.deepEqual(Object.keys(properties).sort(), Object.keys(shape).sort());
+
+    for (const [key, field] of Object.entries(shape)) {
+      const property = properties[key];
+      assert.equal(required.includes(key), !field.isOptional(), `${key} required mismatch`);
+      assert.ok(property.description, `${key} has no description`);
+      assert.equal(property.description, field.description, `${key} description mismatch`);
+
+      const inner = unwrap(field);
+      if (inner instanceof z.ZodEnum) {
+        assert.deepEqual(property.enum, inner.options, `${key} enum mismatch`);
+      }
+      if (field instanceof z.ZodDefault) {
+        assert.deepEqual(property.default, field._def.defaultValue(), `${key} default mismatch`);
+      }
+      if (inner instanceof z.ZodNumber) {
+        if (inner.minValue !== null) {
+          assert.equal(property.minimum ?? property.exclusiveMinimum, inner.minValue, `${key} minimum mismatch`);
+        }
+        if (inner.maxValue !== null) {
+          assert.equal(property.maximum ?? property.exclusiveMaximum, inner.maxValue, `${key} maximum mismatch`);
+        }
+      }
+    }
+  });
+}
+
+test('every advertised tool is executable', async () => {
+  for (const { name } of definitions) {
+    await assert.doesNotReject(
+      tools.executeTool(name, {}).catch((error) => {
+        if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+          throw error;
+        }
+      }),
+      `${name} is advertised but not handled`
+    );
+  }
+});
@@ -30,6 +30,9 @@ if (scenarioPath) {
   }
 }
 
+// Requests to /api/v1/learn, in order
+const learned = [];
+
 function json(res, code, body) {
   const s = JSON.stringify(body);
   res.writeHead(code, {
@@ -77,7 +80,15 @@ const server = http.createServer(async (req, res) => {
   }
 
   if (req.method === 'POST' && pathname === '/api/v1/learn') {
-    return json(res, 200, { success: true, action: 'stored', signatureId: scenario.appBundleId + '-reply' });
+    const body = await readJson(req);
+    const sig = body.signature || {};
+    learned.push({ appBundleId: sig.appBundleId, elementType: sig.elementType, pin: !!body.pin, decay: !!body.decay });
+    return json(res, 200, { success: true, action: body.pin ? 'pinned' : body.decay ? 'decayed' : 'stored', signatureId: scenario.appBundleId + '-reply' });
+  }
+
+  // Not part of the real API: lets tests see which /learn calls were made
+  if (req.method === 'GET' && pathname === '/sim/learned') {
+    return json(res, 200, { learned });
   }
 
   if (req.method === 'GET' && pathname === '/api/v1/status') {
@@ -124,7 +135,8 @@ const server = http.createServer(async (req, res) => {
 });
 
 server.listen(port, () => {
-  console.log(`[sim] UIScout mock service listening on http://127.0.0.1:${port}`);
+  // Report the bound port so `--port 0` can be used to pick a free one
+  console.log(`[sim] UIScout mock service listening on http://127.0.0.1:${server.address().port}`);
 });
 
 // Helpers